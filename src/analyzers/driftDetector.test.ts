@@ -0,0 +1,116 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { detectDrift } from './driftDetector.js';
+import type { FixProposal, WorkflowChange, WorkflowData, WorkflowNode } from '../types/index.js';
+
+function node(name: string, parameters: Record<string, unknown> = {}): WorkflowNode {
+  return { id: `id-${name}`, name, type: 'n8n-nodes-base.set', typeVersion: 1, position: [0, 0], parameters };
+}
+
+// Webhook -> Fetch -> Save, with a model attached to Fetch
+function workflow(): WorkflowData {
+  return {
+    id: 'wf1',
+    name: 'Test',
+    active: true,
+    nodes: [node('Webhook'), node('Fetch', { url: 'http://api.test' }), node('Save'), node('Model')],
+    connections: {
+      Webhook: { main: [[{ node: 'Fetch', type: 'main', index: 0 }]] },
+      Fetch: { main: [[{ node: 'Save', type: 'main', index: 0 }]] },
+      Model: { ai_languageModel: [[{ node: 'Fetch', type: 'ai_languageModel', index: 0 }]] },
+    },
+    settings: { executionOrder: 'v1' },
+  };
+}
+
+function proposal(...changes: WorkflowChange[]): FixProposal {
+  return { id: 'fix1', description: 'Test fix', changes, rollbackPossible: true };
+}
+
+const touchFetch: WorkflowChange = {
+  changeType: 'modify_node',
+  nodeName: 'Fetch',
+  path: 'parameters.url',
+  newValue: 'http://api2.test',
+  description: 'Change URL',
+};
+
+describe('detectDrift', () => {
+  it('ignores nodes that were only moved', () => {
+    const current = workflow();
+    current.nodes[1].position = [500, 500];
+
+    assert.deepEqual(detectDrift(workflow(), current, proposal(touchFetch)), { drifted: false, changedNodes: [], conflicts: [] });
+  });
+
+  it('reports edits to untouched nodes without blocking the fix', () => {
+    const current = workflow();
+    current.nodes[2].parameters = { value: 1 };
+    current.nodes.push(node('Extra'));
+
+    assert.deepEqual(detectDrift(workflow(), current, proposal(touchFetch)), {
+      drifted: true,
+      changedNodes: ['Save', 'Extra'],
+      conflicts: [],
+    });
+  });
+
+  it('blocks on changes to the nodes the fix touches', () => {
+    const edited = workflow();
+    edited.nodes[1].parameters = { url: 'http://other.test' };
+    const renamed = workflow();
+    renamed.nodes[1].name = 'Load';
+    const rewired = workflow();
+    rewired.connections.Fetch = { main: [[]] };
+    const newModel = workflow();
+    newModel.connections = { ...newModel.connections, Model: {} };
+
+    assert.deepEqual(detectDrift(workflow(), edited, proposal(touchFetch)).conflicts, [
+      { nodeName: 'Fetch', reason: 'node configuration changed' },
+    ]);
+    assert.deepEqual(detectDrift(workflow(), renamed, proposal(touchFetch)).conflicts, [
+      { nodeName: 'Fetch', reason: 'node was renamed to "Load"' },
+    ]);
+    assert.deepEqual(detectDrift(workflow(), rewired, proposal(touchFetch)).conflicts, [
+      { nodeName: 'Fetch', reason: 'node connections changed' },
+    ]);
+    assert.deepEqual(detectDrift(workflow(), newModel, proposal(touchFetch)).conflicts, [
+      { nodeName: 'Fetch', reason: 'attached sub-nodes changed' },
+    ]);
+  });
+
+  it('counts the new name of a rename and both ends of an insertion as touched', () => {
+    const current = workflow();
+    current.nodes.push(node('Load'));
+    current.nodes[2].parameters = { value: 1 };
+
+    const report = detectDrift(
+      workflow(),
+      current,
+      proposal(
+        { changeType: 'rename_node', nodeName: 'Webhook', newValue: 'Load', description: 'Rename' },
+        {
+          changeType: 'insert_node_between',
+          newValue: { from: 'Fetch', to: 'Save', node: { name: 'Clean', type: 'n8n-nodes-base.set' } },
+          description: 'Insert',
+        }
+      )
+    );
+
+    assert.deepEqual(report.conflicts, [
+      { nodeName: 'Load', reason: 'node was added' },
+      { nodeName: 'Save', reason: 'node configuration changed' },
+    ]);
+  });
+
+  it('blocks a settings change only when settings changed too', () => {
+    const current = workflow();
+    current.settings = { executionOrder: 'v0' };
+    const settingsChange: WorkflowChange = { changeType: 'modify_settings', newValue: { timezone: 'UTC' }, description: 'Timezone' };
+
+    assert.deepEqual(detectDrift(workflow(), current, proposal(settingsChange)).conflicts, [
+      { nodeName: 'Workflow settings', reason: 'settings changed' },
+    ]);
+    assert.deepEqual(detectDrift(workflow(), current, proposal(touchFetch)), { drifted: true, changedNodes: [], conflicts: [] });
+  });
+});
@@ -0,0 +1,154 @@
+import { logger } from '../utils/logger.js';
+import { isDeepEqual } from '../utils/deepEqual.js';
+import type { FixProposal, InsertNodeChange, WorkflowData, WorkflowNode } from '../types/index.js';
+
+export interface NodeConflict {
+  nodeName: string;
+  reason: string;
+}
+
+export interface DriftReport {
+  // True when the live workflow differs from the snapshot in any way that matters
+  drifted: boolean;
+  // Nodes that changed since the snapshot but are not touched by the proposal
+  changedNodes: string[];
+  // Nodes touched by the proposal that changed since the snapshot - these block the apply
+  conflicts: NodeConflict[];
+}
+
+// Compare the workflow as it was at analysis time with the live version and decide
+// whether the proposal can be rebased onto the live version safely
+export function detectDrift(original: WorkflowData, current: WorkflowData, proposal: FixProposal): DriftReport {
+  const touchedNodes = getTouchedNodes(proposal);
+  const changedNodes = new Map<string, string>();
+
+  // Node-by-node comparison, matched by id first so renames are detected
+  for (const originalNode of original.nodes) {
+    const currentNode = findMatchingNode(current, originalNode);
+    if (!currentNode) {
+      changedNodes.set(originalNode.name, 'node was removed');
+      continue;
+    }
+    if (currentNode.name !== originalNode.name) {
+      changedNodes.set(originalNode.name, `node was renamed to "${currentNode.name}"`);
+      continue;
+    }
+    if (!isDeepEqual(comparableNode(originalNode), comparableNode(currentNode))) {
+      changedNodes.set(originalNode.name, 'node configuration changed');
+      continue;
+    }
+    if (!isDeepEqual(original.connections[originalNode.name], current.connections[currentNode.name])) {
+      changedNodes.set(originalNode.name, 'node connections changed');
+      continue;
+    }
+    // Sub-node links are stored on the sub-node, so swapping an agent's model or tools
+    // would otherwise not register as a change to the agent itself
+    if (!isDeepEqual(getSubNodeLinks(original, originalNode.name), getSubNodeLinks(current, currentNode.name))) {
+      changedNodes.set(originalNode.name, 'attached sub-nodes changed');
+    }
+  }
+
+  for (const currentNode of current.nodes) {
+    if (!findMatchingNode(original, currentNode)) {
+      changedNodes.set(currentNode.name, 'node was added');
+    }
+  }
+
+  const conflicts: NodeConflict[] = [];
+  for (const nodeName of touchedNodes) {
+    const reason = changedNodes.get(nodeName);
+    if (reason) {
+      conflicts.push({ nodeName, reason });
+      changedNodes.delete(nodeName);
+    }
+  }
+
+  // Settings have no node, but a settings change still conflicts with a settings edit
+  const settingsChanged = !isDeepEqual(original.settings ?? {}, current.settings ?? {});
+  if (settingsChanged && proposal.changes.some((c) => c.changeType === 'modify_settings')) {
+    conflicts.push({ nodeName: 'Workflow settings', reason: 'settings changed' });
+  }
+
+  const report: DriftReport = {
+    drifted: changedNodes.size > 0 || conflicts.length > 0 || settingsChanged,
+    changedNodes: Array.from(changedNodes.keys()),
+    conflicts,
+  };
+
+  if (report.drifted) {
+    logger.info('Workflow drift detected', {
+      workflowId: current.id,
+      changedNodes: report.changedNodes,
+      conflicts: report.conflicts.map((c) => c.nodeName),
+    });
+  }
+
+  return report;
+}
+
+// Non-main connections pointing at a node, e.g. the language model and tools of an AI Agent
+function getSubNodeLinks(workflow: WorkflowData, nodeName: string): string[] {
+  const links: string[] = [];
+  for (const [sourceName, connections] of Object.entries(workflow.connections)) {
+    for (const [connectionType, outputs] of Object.entries(connections)) {
+      if (connectionType === 'main') continue;
+      for (const targets of outputs ?? []) {
+        for (const target of targets ?? []) {
+          if (target.node === nodeName) {
+            links.push(`${sourceName}:${connectionType}:${target.index}`);
+          }
+        }
+      }
+    }
+  }
+  return links.sort();
+}
+
+// Names of every node a proposal reads or writes
+function getTouchedNodes(proposal: FixProposal): Set<string> {
+  const touched = new Set<string>();
+
+  for (const change of proposal.changes) {
+    if (change.nodeName) {
+      touched.add(change.nodeName);
+    }
+
+    if (change.changeType === 'add_node') {
+      const newNode = change.newValue as Partial<WorkflowNode> | undefined;
+      if (newNode?.name) {
+        touched.add(newNode.name);
+      }
+    }
+
+    // A node created under the new name since analysis would collide with the rename
+    if (change.changeType === 'rename_node' && typeof change.newValue === 'string') {
+      touched.add(change.newValue);
+    }
+
+    if (change.changeType === 'insert_node_between') {
+      const insertion = change.newValue as Partial<InsertNodeChange> | undefined;
+      if (insertion?.from) touched.add(insertion.from);
+      if (insertion?.to) touched.add(insertion.to);
+      if (insertion?.node?.name) touched.add(insertion.node.name);
+    }
+
+    if (change.changeType === 'modify_connection') {
+      const connectionChange = change.newValue as { from?: string; to?: string } | undefined;
+      if (connectionChange?.from) touched.add(connectionChange.from);
+      if (connectionChange?.to) touched.add(connectionChange.to);
+    }
+  }
+
+  return touched;
+}
+
+function findMatchingNode(workflow: WorkflowData, node: WorkflowNode): WorkflowNode | undefined {
+  return workflow.nodes.find((n) => n.id === node.id) || workflow.nodes.find((n) => n.name === node.name);
+}
+
+// Moving a node around the canvas is not a meaningful change
+function comparableNode(node: WorkflowNode): Omit<WorkflowNode, 'position'> {
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const { position: _position, ...rest } = node;
+  return rest;
+}
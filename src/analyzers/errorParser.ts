@@ -1,4 +1,6 @@
+import crypto from 'crypto';
 import { logger } from '../utils/logger.js';
+import { analyzeExpressions, type ExpressionFinding } from './expressionAnalyzer.js';
 import type { ErrorPayload, WorkflowData } from '../types/index.js';
 
 export interface ParsedError {
@@ -8,6 +10,8 @@ export interface ParsedError {
   affectedAreas: string[];
   keywords: string[];
   severity: 'critical' | 'error' | 'warning';
+  // Broken expressions found in the workflow, with $json fields checked against the failing node's input
+  expressionFindings: ExpressionFinding[];
 }
 
 export type ErrorCategory =
@@ -95,7 +99,8 @@ const ERROR_PATTERNS: Record<ErrorCategory, RegExp[]> = {
   unknown: [],
 };
 
-export function parseError(payload: ErrorPayload, workflow?: WorkflowData): ParsedError {
+// inputSample overrides payload.inputData for the expression checks, e.g. with input read from the execution
+export function parseError(payload: ErrorPayload, workflow?: WorkflowData, inputSample = payload.inputData): ParsedError {
   const errorMessage = payload.errorMessage || '';
   const errorStack = payload.errorStack || '';
   const fullText = `${errorMessage} ${errorStack}`;
@@ -151,6 +156,14 @@ export function parseError(payload: ErrorPayload, workflow?: WorkflowData): Pars
     affectedAreas.push('input_data');
   }
 
+  const expressionFindings = workflow
+    ? analyzeExpressions(workflow, { nodeName, inputSample })
+    : [];
+
+  if (expressionFindings.length > 0) {
+    affectedAreas.push('expressions');
+  }
+
   // Extract keywords for skill matching
   const keywords = extractKeywords(fullText);
 
@@ -169,6 +182,7 @@ export function parseError(payload: ErrorPayload, workflow?: WorkflowData): Pars
     affectedAreas,
     severity,
     keywordCount: keywords.length,
+    expressionFindings: expressionFindings.length,
   });
 
   return {
@@ -178,6 +192,7 @@ export function parseError(payload: ErrorPayload, workflow?: WorkflowData): Pars
     affectedAreas,
     keywords,
     severity,
+    expressionFindings,
   };
 }
 
@@ -225,3 +240,28 @@ export function getErrorContext(payload: ErrorPayload): string {
 
   return parts.join(' | ');
 }
+
+// Strip the parts of an error message that vary between occurrences of the same failure
+export function normalizeErrorMessage(message: string): string {
+  return message
+    .toLowerCase()
+    .replace(/[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/g, '<id>')
+    .replace(/\b[0-9a-f]*\d[0-9a-f]*\b/g, (match) => (match.length >= 8 ? '<id>' : match))
+    .replace(/\d+(\.\d+)?/g, '<n>')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+// Stable identity of a failure, used to deduplicate repeated error reports
+export function fingerprintError(payload: ErrorPayload, parsed: ParsedError): string {
+  // Workflow ids are only unique within one n8n instance
+  const parts = [
+    ...(payload.instance ? [payload.instance] : []),
+    payload.workflowId,
+    parsed.nodeName || '',
+    parsed.category,
+    normalizeErrorMessage(payload.errorMessage || ''),
+  ];
+
+  return crypto.createHash('sha256').update(parts.join('|')).digest('hex');
+}
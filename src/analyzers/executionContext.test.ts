@@ -0,0 +1,106 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { enrichPayload, extractExecutionContext, sampleItems } from './executionContext.js';
+import type { ExecutionContext, ExecutionData, WorkflowData, WorkflowNode } from '../types/index.js';
+
+function node(name: string, type = 'n8n-nodes-base.set'): WorkflowNode {
+  return { id: `id-${name}`, name, type, typeVersion: 1, position: [0, 0], parameters: {} };
+}
+
+// Trigger -> Check (IF) -> false branch -> Save
+const workflow: WorkflowData = {
+  id: 'wf1',
+  name: 'Test',
+  active: true,
+  nodes: [node('Trigger', 'n8n-nodes-base.manualTrigger'), node('Check', 'n8n-nodes-base.if'), node('Save')],
+  connections: {
+    Trigger: { main: [[{ node: 'Check', type: 'main', index: 0 }]] },
+    Check: { main: [[], [{ node: 'Save', type: 'main', index: 0 }]] },
+  },
+};
+
+const items = (...values: unknown[]) => values.map((json) => ({ json }));
+
+function execution(resultData: NonNullable<ExecutionData['data']>['resultData']): ExecutionData {
+  return {
+    id: '42',
+    finished: false,
+    mode: 'trigger',
+    status: 'error',
+    startedAt: '2024-01-01T00:00:00Z',
+    workflowId: 'wf1',
+    workflowData: workflow,
+    data: { resultData },
+  };
+}
+
+describe('extractExecutionContext', () => {
+  it('takes the input of the failing node from the output its parent routed through', () => {
+    const context = extractExecutionContext(
+      execution({
+        runData: {
+          Trigger: [{ data: { main: [items({ id: 1 }, { id: 2 })] } }],
+          Check: [{ data: { main: [items({ id: 1 }), items({ id: 2 })] } }],
+        },
+        error: { message: 'Boom', httpCode: 500, node: { name: 'Save', type: 'n8n-nodes-base.set' }, stack: 'Error: Boom' },
+      }),
+      workflow
+    );
+
+    assert.equal(context.failingNode, 'Save');
+    assert.deepEqual(context.error, { message: 'Boom', description: undefined, httpCode: '500', node: 'Save', stack: 'Error: Boom' });
+    assert.deepEqual(context.nodeInput, { items: [{ id: 2 }], totalItems: 1 });
+    assert.deepEqual(context.upstreamOutputs, {
+      Check: { items: [{ id: 2 }], totalItems: 1 },
+      Trigger: { items: [{ id: 1 }, { id: 2 }], totalItems: 2 },
+    });
+  });
+
+  it('falls back to the last node executed and handles older error formats', () => {
+    const context = extractExecutionContext(
+      execution({ lastNodeExecuted: 'Check', error: { message: '', node: 'Check' }, runData: {} }),
+      workflow
+    );
+
+    assert.equal(context.failingNode, 'Check');
+    assert.equal(context.error?.message, 'Unknown error');
+    assert.equal(context.nodeInput, undefined);
+  });
+
+  it('prefers the node named by the payload', () => {
+    const context = extractExecutionContext(execution({ lastNodeExecuted: 'Check' }), workflow, 'Save');
+    assert.equal(context.failingNode, 'Save');
+  });
+});
+
+describe('sampleItems', () => {
+  it('keeps whole items and shortens long values inside them', () => {
+    const sample = sampleItems([{ text: 'x'.repeat(510), list: Array.from({ length: 22 }, (_, i) => i) }, {}, {}], 1);
+
+    assert.equal(sample.totalItems, 3);
+    const [item] = sample.items as Array<{ text: string; list: unknown[] }>;
+    assert.equal(item.text, `${'x'.repeat(500)}... (10 more characters)`);
+    assert.equal(item.list.length, 21);
+    assert.equal(item.list[20], '... 2 more');
+  });
+});
+
+describe('enrichPayload', () => {
+  it('fills in only what the payload is missing', () => {
+    const context: ExecutionContext = {
+      executionId: '42',
+      mode: 'trigger',
+      failingNode: 'Save',
+      upstreamOutputs: {},
+      error: { message: 'Boom', stack: 'trace' },
+    };
+
+    assert.deepEqual(enrichPayload({ workflowId: 'wf1', errorMessage: 'Boom' }, context), {
+      workflowId: 'wf1',
+      errorMessage: 'Boom',
+      nodeName: 'Save',
+      errorStack: 'trace',
+    });
+    assert.equal(enrichPayload({ workflowId: 'wf1', errorMessage: 'Boom', nodeName: 'Check' }, context).nodeName, 'Check');
+  });
+});
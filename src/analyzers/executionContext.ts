@@ -0,0 +1,140 @@
+import type { ErrorPayload, ExecutionContext, ExecutionData, ItemSample, WorkflowData } from '../types/index.js';
+
+// How much item data is kept: whole items are dropped past these counts, never cut mid-way
+const MAX_INPUT_ITEMS = 5;
+const MAX_UPSTREAM_ITEMS = 2;
+const MAX_UPSTREAM_NODES = 5;
+// Inside an item, long strings and arrays are shortened so one huge item can't fill the prompt
+const MAX_STRING_LENGTH = 500;
+const MAX_ARRAY_LENGTH = 20;
+const MAX_DEPTH = 8;
+
+interface RunDataEntry {
+  data?: { main?: Array<Array<{ json?: unknown }> | null> };
+}
+
+// What a failed execution knows beyond the error workflow's payload: the failing node's input,
+// what the nodes before it produced and the full error
+export function extractExecutionContext(
+  execution: ExecutionData,
+  workflow: WorkflowData,
+  nodeName?: string
+): ExecutionContext {
+  const resultData = execution.data?.resultData;
+  const runData = (resultData?.runData ?? {}) as Record<string, RunDataEntry[]>;
+  const error = resultData?.error;
+
+  const errorNode = typeof error?.node === 'string' ? error.node : error?.node?.name;
+  const failingNode = nodeName ?? errorNode ?? resultData?.lastNodeExecuted;
+
+  const context: ExecutionContext = {
+    executionId: String(execution.id),
+    mode: execution.mode,
+    status: execution.status,
+    failingNode,
+    upstreamOutputs: {},
+  };
+
+  if (error) {
+    context.error = {
+      message: error.message || 'Unknown error',
+      description: error.description || undefined,
+      httpCode: error.httpCode !== undefined ? String(error.httpCode) : undefined,
+      node: errorNode,
+      stack: error.stack,
+    };
+  }
+
+  if (!failingNode) {
+    return context;
+  }
+
+  // Nearest nodes first, so the direct parents are kept when the limit applies
+  const upstream = findUpstreamNodes(workflow, failingNode);
+
+  for (const { name, outputIndex } of upstream) {
+    const items = getOutputItems(runData, name, outputIndex);
+    if (!items) continue;
+
+    // The direct parent's output is the failing node's input
+    if (!context.nodeInput && isParent(workflow, name, failingNode)) {
+      context.nodeInput = sampleItems(items, MAX_INPUT_ITEMS);
+    }
+
+    if (Object.keys(context.upstreamOutputs).length < MAX_UPSTREAM_NODES) {
+      context.upstreamOutputs[name] = sampleItems(items, MAX_UPSTREAM_ITEMS);
+    }
+  }
+
+  return context;
+}
+
+// Fill in what the error workflow left out of the payload
+export function enrichPayload(payload: ErrorPayload, context: ExecutionContext): ErrorPayload {
+  return {
+    ...payload,
+    nodeName: payload.nodeName ?? context.failingNode,
+    errorStack: payload.errorStack ?? context.error?.stack,
+  };
+}
+
+// Ancestors over main connections in breadth-first order, with the output of each that leads onward
+function findUpstreamNodes(workflow: WorkflowData, nodeName: string): Array<{ name: string; outputIndex: number }> {
+  const found: Array<{ name: string; outputIndex: number }> = [];
+  const visited = new Set<string>([nodeName]);
+  const queue = [nodeName];
+
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    for (const [sourceName, connections] of Object.entries(workflow.connections)) {
+      if (visited.has(sourceName)) continue;
+      const outputIndex = (connections.main ?? []).findIndex((targets) => (targets ?? []).some((t) => t.node === current));
+      if (outputIndex === -1) continue;
+      visited.add(sourceName);
+      found.push({ name: sourceName, outputIndex });
+      queue.push(sourceName);
+    }
+  }
+
+  return found;
+}
+
+function isParent(workflow: WorkflowData, sourceName: string, nodeName: string): boolean {
+  return (workflow.connections[sourceName]?.main ?? []).some((targets) => (targets ?? []).some((t) => t.node === nodeName));
+}
+
+// Items from the node's last run on the given output
+function getOutputItems(runData: Record<string, RunDataEntry[]>, nodeName: string, outputIndex: number): unknown[] | undefined {
+  const runs = runData[nodeName];
+  const items = runs?.[runs.length - 1]?.data?.main?.[outputIndex];
+  return items && items.length > 0 ? items.map((item) => item.json) : undefined;
+}
+
+export function sampleItems(items: unknown[], maxItems: number): ItemSample {
+  return {
+    items: items.slice(0, maxItems).map((item) => shortenValue(item, 0)),
+    totalItems: items.length,
+  };
+}
+
+function shortenValue(value: unknown, depth: number): unknown {
+  if (typeof value === 'string') {
+    return value.length > MAX_STRING_LENGTH
+      ? `${value.slice(0, MAX_STRING_LENGTH)}... (${value.length - MAX_STRING_LENGTH} more characters)`
+      : value;
+  }
+  if (value === null || typeof value !== 'object') {
+    return value;
+  }
+  if (depth >= MAX_DEPTH) {
+    return Array.isArray(value) ? '[array]' : '[object]';
+  }
+  if (Array.isArray(value)) {
+    const shortened = value.slice(0, MAX_ARRAY_LENGTH).map((child) => shortenValue(child, depth + 1));
+    if (value.length > MAX_ARRAY_LENGTH) {
+      shortened.push(`... ${value.length - MAX_ARRAY_LENGTH} more`);
+    }
+    return shortened;
+  }
+  return Object.fromEntries(Object.entries(value).map(([key, child]) => [key, shortenValue(child, depth + 1)]));
+}
@@ -0,0 +1,70 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { summarizeExecutionHistory } from './executionHistory.js';
+import type { ExecutionData } from '../types/index.js';
+
+// Newest first, as n8n lists them
+function run(status: string | undefined, startedAt: string, extra: Partial<ExecutionData> = {}): ExecutionData {
+  return { id: startedAt, status, startedAt, stoppedAt: startedAt, finished: status === 'success', ...extra } as ExecutionData;
+}
+
+describe('summarizeExecutionHistory', () => {
+  it('counts the failures since the last success as the current streak', () => {
+    const history = summarizeExecutionHistory([
+      run('error', '05'),
+      run('crashed', '04'),
+      run('success', '03'),
+      run('error', '02'),
+      run('success', '01'),
+    ]);
+
+    assert.deepEqual(history, {
+      total: 5,
+      failed: 3,
+      consecutiveFailures: 2,
+      failingSince: '04',
+      firstFailureAt: '02',
+      lastSuccessAt: '03',
+    });
+  });
+
+  it('treats a history without any success as one streak', () => {
+    const history = summarizeExecutionHistory([run('error', '03'), run('error', '02'), run('failed', '01')]);
+
+    assert.equal(history.consecutiveFailures, 3);
+    assert.equal(history.failingSince, '01');
+    assert.equal(history.lastSuccessAt, undefined);
+  });
+
+  it('has no streak when the latest run succeeded', () => {
+    const history = summarizeExecutionHistory([run('success', '02'), run('error', '01')]);
+
+    assert.equal(history.consecutiveFailures, 0);
+    assert.equal(history.failingSince, undefined);
+    assert.equal(history.firstFailureAt, '01');
+  });
+
+  it('leaves running, waiting and canceled runs out of the counts', () => {
+    const history = summarizeExecutionHistory([
+      run('running', '04'),
+      run('error', '03'),
+      run('canceled', '02'),
+      run('waiting', '01'),
+    ]);
+
+    assert.equal(history.total, 1);
+    assert.equal(history.consecutiveFailures, 1);
+  });
+
+  it('falls back to finished for runs without a status', () => {
+    const history = summarizeExecutionHistory([
+      run(undefined, '03', { finished: false }),
+      run(undefined, '02', { finished: true }),
+      run(undefined, '01', { finished: false, stoppedAt: undefined }),
+    ]);
+
+    assert.equal(history.total, 2);
+    assert.equal(history.consecutiveFailures, 1);
+    assert.equal(history.lastSuccessAt, '02');
+  });
+});
@@ -0,0 +1,37 @@
+import type { ExecutionData, ExecutionHistory } from '../types/index.js';
+
+// Statuses that count as a failed run; running, waiting and canceled runs are left out of the counts
+const FAILED_STATUSES = new Set(['error', 'crashed', 'failed']);
+
+// Summarize recent executions of a workflow, given newest first as n8n lists them
+export function summarizeExecutionHistory(executions: ExecutionData[]): ExecutionHistory {
+  const outcomes = executions
+    .map((execution) => ({ execution, outcome: getOutcome(execution) }))
+    .filter((entry): entry is { execution: ExecutionData; outcome: 'success' | 'failure' } => entry.outcome !== undefined);
+
+  const failures = outcomes.filter((entry) => entry.outcome === 'failure');
+  const lastSuccessIndex = outcomes.findIndex((entry) => entry.outcome === 'success');
+
+  // Failures newer than the last success form the current streak
+  const streak = lastSuccessIndex === -1 ? outcomes : outcomes.slice(0, lastSuccessIndex);
+
+  return {
+    total: outcomes.length,
+    failed: failures.length,
+    consecutiveFailures: streak.length,
+    failingSince: streak.length > 0 ? streak[streak.length - 1].execution.startedAt : undefined,
+    firstFailureAt: failures.length > 0 ? failures[failures.length - 1].execution.startedAt : undefined,
+    lastSuccessAt: lastSuccessIndex !== -1 ? outcomes[lastSuccessIndex].execution.startedAt : undefined,
+  };
+}
+
+function getOutcome(execution: ExecutionData): 'success' | 'failure' | undefined {
+  if (execution.status) {
+    if (execution.status === 'success') return 'success';
+    return FAILED_STATUSES.has(execution.status) ? 'failure' : undefined;
+  }
+
+  // Older n8n versions only say whether the run finished
+  if (!execution.stoppedAt) return undefined;
+  return execution.finished ? 'success' : 'failure';
+}
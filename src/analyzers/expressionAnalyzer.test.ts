@@ -0,0 +1,86 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { analyzeExpressions, renameNodeReferences } from './expressionAnalyzer.js';
+import type { WorkflowData } from '../types/index.js';
+
+function workflow(parameters: Record<string, unknown>): WorkflowData {
+  return {
+    id: 'wf1',
+    name: 'Test',
+    active: false,
+    nodes: [
+      { id: '1', name: 'Fetch', type: 'n8n-nodes-base.httpRequest', typeVersion: 1, position: [0, 0], parameters: {} },
+      { id: '2', name: 'Save', type: 'n8n-nodes-base.set', typeVersion: 1, position: [200, 0], parameters },
+    ],
+    connections: {},
+  };
+}
+
+describe('analyzeExpressions', () => {
+  it('reports references to nodes that do not exist, with the parameter path', () => {
+    const findings = analyzeExpressions(
+      workflow({ fields: [{ value: `={{ $('Fetch').item.json.id }} {{ $node["Old name"].json.id }}` }] })
+    );
+
+    assert.deepEqual(
+      findings.map(({ kind, nodeName, parameterPath, reference }) => ({ kind, nodeName, parameterPath, reference })),
+      [{ kind: 'unknown_node', nodeName: 'Save', parameterPath: 'parameters.fields[0].value', reference: 'Old name' }]
+    );
+  });
+
+  it('recognizes every reference form and escaped quotes', () => {
+    const findings = analyzeExpressions(
+      workflow({ value: `={{ $node.Gone.json + $items("Also gone") + $('It\\'s gone') + $node.Fetch.json }}` })
+    );
+
+    assert.deepEqual(
+      findings.map((finding) => finding.reference),
+      ["It's gone", 'Also gone', 'Gone']
+    );
+  });
+
+  it('reports an expression that is never closed', () => {
+    const [finding] = analyzeExpressions(workflow({ url: '=https://api.test/{{ $json.id' }));
+
+    assert.equal(finding.kind, 'unterminated');
+    assert.equal(finding.parameterPath, 'parameters.url');
+  });
+
+  it('checks $json fields against the input sample of the given node only', () => {
+    const parameters = { url: '={{ $json.user.id }}/{{ $json.order.total }}/{{ $json.items.length }}/{{ $json.name.trim() }}' };
+    const inputSample = [{ json: { user: { id: 1 }, items: [], name: 'x' } }];
+
+    const findings = analyzeExpressions(workflow(parameters), { nodeName: 'Save', inputSample });
+    assert.deepEqual(
+      findings.map((finding) => [finding.kind, finding.reference]),
+      [['missing_field', '$json.order']]
+    );
+
+    assert.deepEqual(analyzeExpressions(workflow(parameters), { nodeName: 'Fetch', inputSample }), []);
+  });
+});
+
+describe('renameNodeReferences', () => {
+  it('rewrites every reference form', () => {
+    const value = `={{ $('Fetch').item.json.id + $node["Fetch"].json.id + $node.Fetch.json.id + $items("Fetch").length }}`;
+
+    assert.equal(
+      renameNodeReferences(value, 'Fetch', 'Load'),
+      `={{ $('Load').item.json.id + $node["Load"].json.id + $node.Load.json.id + $items("Load").length }}`
+    );
+  });
+
+  it('leaves other nodes with a shared prefix alone', () => {
+    const value = `={{ $('Fetch 2').item.json.id + $node.FetchAll.json.id }}`;
+    assert.equal(renameNodeReferences(value, 'Fetch', 'Load'), value);
+  });
+
+  it('escapes quotes in the new name and switches to brackets for names that are not identifiers', () => {
+    assert.equal(renameNodeReferences(`$('Fetch')`, 'Fetch', "Bob's API"), `$('Bob\\'s API')`);
+    assert.equal(renameNodeReferences('$node.Fetch.json', 'Fetch', 'Get data'), '$node["Get data"].json');
+  });
+
+  it('matches names with regex characters literally', () => {
+    assert.equal(renameNodeReferences(`$('Fetch (v2)') + $('Fetch v2')`, 'Fetch (v2)', 'Load'), `$('Load') + $('Fetch v2')`);
+  });
+});
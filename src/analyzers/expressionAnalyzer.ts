@@ -0,0 +1,212 @@
+import type { WorkflowData, WorkflowNode } from '../types/index.js';
+
+export interface ExpressionFinding {
+  kind: 'unknown_node' | 'missing_field' | 'unterminated';
+  // Node whose parameter holds the expression
+  nodeName: string;
+  // Where the expression sits, usable as a modify_node path (parameters.url)
+  parameterPath: string;
+  expression: string;
+  // The referenced node name or $json path
+  reference?: string;
+  message: string;
+}
+
+export interface ExpressionAnalysisOptions {
+  // Check $json references in this node against inputSample
+  nodeName?: string;
+  // Input the node received, as n8n items ([{ json: {...} }]) or plain objects
+  inputSample?: unknown;
+}
+
+// References to other nodes: $('Name'), $node["Name"], $node.Name, $items("Name")
+const NODE_REFERENCE_PATTERNS = [
+  /\$\(\s*(['"`])((?:(?!\1)[^\\]|\\.)*)\1\s*\)/g,
+  /\$node\[\s*(['"`])((?:(?!\1)[^\\]|\\.)*)\1\s*\]/g,
+  /\$items\(\s*(['"`])((?:(?!\1)[^\\]|\\.)*)\1/g,
+];
+const NODE_DOT_REFERENCE = /\$node\.([A-Za-z_$][\w$]*)/g;
+
+// $json.a.b, $json["a b"][0] and the $input.item.json equivalent
+const JSON_REFERENCE = /(?:\$json|\$input\.item\.json)((?:\.[A-Za-z_$][\w$]*|\[\s*(?:\d+|"[^"]*"|'[^']*')\s*\])*)/g;
+
+export function analyzeExpressions(workflow: WorkflowData, options: ExpressionAnalysisOptions = {}): ExpressionFinding[] {
+  const findings: ExpressionFinding[] = [];
+  const nodeNames = new Set(workflow.nodes.map((n) => n.name));
+  const sample = options.inputSample !== undefined ? firstItem(options.inputSample) : undefined;
+
+  for (const node of workflow.nodes) {
+    for (const { path, value } of collectStrings(node.parameters ?? {}, 'parameters')) {
+      const { segments, unterminated } = extractSegments(value);
+
+      if (unterminated) {
+        findings.push({
+          kind: 'unterminated',
+          nodeName: node.name,
+          parameterPath: path,
+          expression: value,
+          message: `Expression in ${node.name} ${path} has "{{" without a matching "}}"`,
+        });
+      }
+
+      for (const expression of segments) {
+        for (const reference of findNodeReferences(expression)) {
+          if (!nodeNames.has(reference)) {
+            findings.push({
+              kind: 'unknown_node',
+              nodeName: node.name,
+              parameterPath: path,
+              expression,
+              reference,
+              message: `Expression in ${node.name} ${path} references node "${reference}", which does not exist`,
+            });
+          }
+        }
+
+        if (sample !== undefined && node.name === options.nodeName) {
+          findings.push(...findMissingFields(node, path, expression, sample));
+        }
+      }
+    }
+  }
+
+  return findings;
+}
+
+// Every string value under a parameter object, with its path in valuePath notation
+function collectStrings(value: unknown, path: string): Array<{ path: string; value: string }> {
+  if (typeof value === 'string') {
+    return [{ path, value }];
+  }
+  if (Array.isArray(value)) {
+    return value.flatMap((item, index) => collectStrings(item, `${path}[${index}]`));
+  }
+  if (value && typeof value === 'object') {
+    return Object.entries(value).flatMap(([key, child]) => collectStrings(child, `${path}.${key}`));
+  }
+  return [];
+}
+
+function extractSegments(value: string): { segments: string[]; unterminated: boolean } {
+  const segments: string[] = [];
+  let position = 0;
+
+  while (true) {
+    const start = value.indexOf('{{', position);
+    if (start === -1) return { segments, unterminated: false };
+
+    const end = value.indexOf('}}', start + 2);
+    if (end === -1) return { segments, unterminated: true };
+
+    segments.push(value.slice(start + 2, end).trim());
+    position = end + 2;
+  }
+}
+
+function findNodeReferences(expression: string): string[] {
+  const references = new Set<string>();
+
+  for (const pattern of NODE_REFERENCE_PATTERNS) {
+    for (const match of expression.matchAll(pattern)) {
+      references.add(match[2].replace(/\\(.)/g, '$1'));
+    }
+  }
+  for (const match of expression.matchAll(NODE_DOT_REFERENCE)) {
+    references.add(match[1]);
+  }
+
+  return Array.from(references);
+}
+
+// Point every reference to oldName at newName: $('Old'), $node["Old"], $node.Old and $items("Old").
+// Applies to any string, so Code node sources are covered as well as {{ }} expressions.
+export function renameNodeReferences(value: string, oldName: string, newName: string): string {
+  const escaped = oldName.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+  let renamed = value.replace(
+    new RegExp(`(\\$\\(\\s*|\\$node\\[\\s*|\\$items\\(\\s*)(['"\`])${escaped}\\2`, 'g'),
+    (_, prefix: string, quote: string) => `${prefix}${quote}${newName.replace(new RegExp(`[\\\\${quote}]`, 'g'), '\\$&')}${quote}`
+  );
+
+  if (/^[A-Za-z_$][\w$]*$/.test(oldName)) {
+    const replacement = /^[A-Za-z_$][\w$]*$/.test(newName) ? `$node.${newName}` : `$node[${JSON.stringify(newName)}]`;
+    renamed = renamed.replace(new RegExp(`\\$node\\.${escaped}(?![\\w$])`, 'g'), () => replacement);
+  }
+
+  return renamed;
+}
+
+function findMissingFields(node: WorkflowNode, path: string, expression: string, sample: unknown): ExpressionFinding[] {
+  const findings: ExpressionFinding[] = [];
+
+  for (const match of expression.matchAll(JSON_REFERENCE)) {
+    const keys = parseFieldPath(match[1]);
+    // A trailing .name( is a method call on the value, not a field
+    if (expression[match.index! + match[0].length] === '(' && keys.length > 0) {
+      keys.pop();
+    }
+    if (keys.length === 0) continue;
+
+    const missingAt = findMissingKey(sample, keys);
+    if (missingAt !== -1) {
+      const reference = `$json${formatFieldPath(keys.slice(0, missingAt + 1))}`;
+      findings.push({
+        kind: 'missing_field',
+        nodeName: node.name,
+        parameterPath: path,
+        expression,
+        reference,
+        message: `Expression in ${node.name} ${path} reads ${reference}, which is not in the node's input`,
+      });
+    }
+  }
+
+  return findings;
+}
+
+function parseFieldPath(text: string): string[] {
+  const keys: string[] = [];
+  for (const match of text.matchAll(/\.([A-Za-z_$][\w$]*)|\[\s*(\d+|"[^"]*"|'[^']*')\s*\]/g)) {
+    keys.push(match[1] ?? match[2].replace(/^["']|["']$/g, ''));
+  }
+  return keys;
+}
+
+function formatFieldPath(keys: string[]): string {
+  return keys.map((key) => (/^[A-Za-z_$][\w$]*$/.test(key) ? `.${key}` : `[${JSON.stringify(key)}]`)).join('');
+}
+
+// Index of the first key the sample lacks, or -1. Walking stops without a finding once the value
+// is something other than an object, since .length and friends are valid on strings and arrays.
+function findMissingKey(sample: unknown, keys: string[]): number {
+  let current = sample;
+
+  for (let i = 0; i < keys.length; i++) {
+    if (current === null || current === undefined) {
+      return i;
+    }
+    if (Array.isArray(current)) {
+      if (!/^\d+$/.test(keys[i])) return -1;
+      current = current[parseInt(keys[i], 10)];
+      if (current === undefined) return i;
+      continue;
+    }
+    if (typeof current !== 'object') {
+      return -1;
+    }
+    if (!(keys[i] in (current as Record<string, unknown>))) {
+      return i;
+    }
+    current = (current as Record<string, unknown>)[keys[i]];
+  }
+
+  return -1;
+}
+
+function firstItem(inputSample: unknown): unknown {
+  const item = Array.isArray(inputSample) ? inputSample[0] : inputSample;
+  if (item && typeof item === 'object' && 'json' in item && typeof (item as { json: unknown }).json === 'object') {
+    return (item as { json: unknown }).json;
+  }
+  return item;
+}
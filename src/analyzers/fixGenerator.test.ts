@@ -0,0 +1,278 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { applyFix } from './fixGenerator.js';
+import type { ErrorAnalysis, WorkflowChange, WorkflowData, WorkflowNode } from '../types/index.js';
+
+function node(name: string, parameters: Record<string, unknown> = {}, position: [number, number] = [0, 0]): WorkflowNode {
+  return { id: `id-${name}`, name, type: 'n8n-nodes-base.set', typeVersion: 1, position, parameters };
+}
+
+// Webhook -> Fetch -> Save
+function workflow(): WorkflowData {
+  return {
+    id: 'wf1',
+    name: 'Test',
+    active: false,
+    nodes: [
+      { ...node('Webhook', {}, [0, 0]), type: 'n8n-nodes-base.webhook' },
+      node('Fetch', { url: 'http://api.test', timeout: 3000 }, [200, 0]),
+      node('Save', { value: '={{ $json.id }}' }, [400, 0]),
+    ],
+    connections: {
+      Webhook: { main: [[{ node: 'Fetch', type: 'main', index: 0 }]] },
+      Fetch: { main: [[{ node: 'Save', type: 'main', index: 0 }]] },
+    },
+    settings: { executionOrder: 'v1', executionTimeout: 300 },
+  };
+}
+
+function fix(changes: WorkflowChange[], atomic?: boolean): ErrorAnalysis {
+  return {
+    rootCause: 'Test',
+    explanation: 'Test',
+    affectedNodes: [],
+    confidence: 'high',
+    suggestedFix: { id: 'fix1', description: 'Test fix', changes, rollbackPossible: true, atomic },
+  };
+}
+
+const raiseTimeout: WorkflowChange = {
+  changeType: 'modify_node',
+  nodeName: 'Fetch',
+  path: 'parameters.timeout',
+  newValue: 5000,
+  description: 'Raise timeout',
+};
+const fixMissing: WorkflowChange = {
+  changeType: 'modify_node',
+  nodeName: 'Missing',
+  path: 'parameters.value',
+  newValue: 1,
+  description: 'Fix missing node',
+};
+const renameSave: WorkflowChange = { changeType: 'rename_node', nodeName: 'Save', newValue: 'Store', description: 'Rename Save' };
+
+describe('applyFix modes', () => {
+  it('applies nothing when a change of an atomic fix fails', () => {
+    const original = workflow();
+    const result = applyFix(original, fix([raiseTimeout, fixMissing]));
+
+    assert.equal(result.mode, 'atomic');
+    assert.equal(result.success, false);
+    assert.match(result.error!, /Atomic patch aborted/);
+    assert.equal(result.patchedWorkflow, undefined);
+    assert.deepEqual(result.appliedChanges, []);
+    assert.deepEqual(result.rolledBackChanges, ['Raise timeout']);
+    assert.deepEqual(result.skippedChanges, ['Fix missing node: Node not found: Missing']);
+    assert.deepEqual(original, workflow());
+  });
+
+  it('lets the caller force atomic mode over the proposal', () => {
+    const result = applyFix(workflow(), fix([raiseTimeout, fixMissing], false), { atomic: true });
+
+    assert.equal(result.mode, 'atomic');
+    assert.equal(result.success, false);
+  });
+
+  it('skips only the failed change of a partial fix', () => {
+    const result = applyFix(workflow(), fix([raiseTimeout, fixMissing], false));
+
+    assert.equal(result.mode, 'partial');
+    assert.equal(result.success, true);
+    assert.deepEqual(result.appliedChanges, ['Raise timeout']);
+    assert.deepEqual(result.skippedChanges, ['Fix missing node: Node not found: Missing']);
+    assert.deepEqual(result.rolledBackChanges, []);
+    assert.equal(result.patchedWorkflow!.nodes[1].parameters.timeout, 5000);
+  });
+
+  it('rolls back the rest of a group when one of its changes fails', () => {
+    const result = applyFix(
+      workflow(),
+      fix([{ ...raiseTimeout, group: 'fetch' }, { ...fixMissing, group: 'fetch' }, renameSave], false)
+    );
+
+    assert.equal(result.success, true);
+    assert.deepEqual(result.appliedChanges, ['Rename Save']);
+    assert.deepEqual(result.rolledBackChanges, ['Raise timeout (depends on a failed change in group fetch)']);
+    assert.equal(result.patchedWorkflow!.nodes[1].parameters.timeout, 3000);
+    assert.equal(result.patchedWorkflow!.nodes[2].name, 'Store');
+  });
+
+  it('fails a partial fix when nothing could be applied', () => {
+    const result = applyFix(workflow(), fix([fixMissing], false));
+
+    assert.equal(result.success, false);
+    assert.match(result.error!, /No changes could be applied/);
+  });
+});
+
+describe('applyFix rename_node', () => {
+  it('moves connections and rewrites expressions that read from the node', () => {
+    const data = workflow();
+    data.nodes[2].parameters = { value: "={{ $('Fetch').item.json.id }}", code: 'return $node["Fetch"].json;' };
+
+    const result = applyFix(data, fix([{ changeType: 'rename_node', nodeName: 'Fetch', newValue: 'Load', description: 'Rename' }]));
+
+    assert.equal(result.success, true);
+    const patched = result.patchedWorkflow!;
+    assert.equal(patched.nodes[1].name, 'Load');
+    assert.deepEqual(patched.connections, {
+      Webhook: { main: [[{ node: 'Load', type: 'main', index: 0 }]] },
+      Load: { main: [[{ node: 'Save', type: 'main', index: 0 }]] },
+    });
+    assert.deepEqual(patched.nodes[2].parameters, { value: "={{ $('Load').item.json.id }}", code: 'return $node["Load"].json;' });
+  });
+
+  it('refuses to take the name of another node', () => {
+    const result = applyFix(workflow(), fix([{ changeType: 'rename_node', nodeName: 'Fetch', newValue: 'Save', description: 'Rename' }]));
+
+    assert.equal(result.success, false);
+    assert.deepEqual(result.skippedChanges, ['Rename: Cannot rename Fetch: a node named Save already exists']);
+  });
+});
+
+describe('applyFix insert_node_between', () => {
+  it('reroutes the connection through the new node and makes room for it', () => {
+    const insert: WorkflowChange = {
+      changeType: 'insert_node_between',
+      newValue: { from: 'Fetch', to: 'Save', node: { name: 'Clean', type: 'n8n-nodes-base.set' } },
+      description: 'Clean up before saving',
+    };
+    const result = applyFix(workflow(), fix([insert]));
+
+    assert.equal(result.success, true);
+    const patched = result.patchedWorkflow!;
+    assert.deepEqual(patched.connections.Fetch, { main: [[{ node: 'Clean', type: 'main', index: 0 }]] });
+    assert.deepEqual(patched.connections.Clean, { main: [[{ node: 'Save', type: 'main', index: 0 }]] });
+    assert.deepEqual(
+      patched.nodes.map((n) => [n.name, n.position]),
+      [
+        ['Webhook', [0, 0]],
+        ['Fetch', [200, 0]],
+        ['Save', [600, 0]],
+        ['Clean', [400, 0]],
+      ]
+    );
+  });
+});
+
+describe('applyFix set_credential', () => {
+  const credentials = [
+    { id: '7', name: 'Production API', type: 'httpHeaderAuth' },
+    { id: '8', name: 'Slack', type: 'slackApi' },
+  ];
+  const useCredential = (newValue: unknown): WorkflowChange => ({
+    changeType: 'set_credential',
+    nodeName: 'Fetch',
+    newValue,
+    description: 'Use the production credential',
+  });
+
+  it('writes only an id and name reference to a listed credential', () => {
+    const result = applyFix(
+      workflow(),
+      fix([useCredential({ credentialType: 'httpHeaderAuth', id: 7, name: 'Renamed', data: { value: 'secret' } })]),
+      { credentials }
+    );
+
+    assert.equal(result.success, true);
+    assert.deepEqual(result.patchedWorkflow!.nodes[1].credentials, { httpHeaderAuth: { id: '7', name: 'Production API' } });
+  });
+
+  it('refuses credentials n8n did not list or of another type', () => {
+    const apply = (newValue: unknown) => applyFix(workflow(), fix([useCredential(newValue)]), { credentials });
+
+    assert.match(apply({ credentialType: 'httpHeaderAuth', id: '9' }).skippedChanges[0], /not one of the credentials listed by n8n/);
+    assert.match(apply({ credentialType: 'httpHeaderAuth', id: '8' }).skippedChanges[0], /is of type slackApi, not httpHeaderAuth/);
+
+    const unlisted = applyFix(workflow(), fix([useCredential({ credentialType: 'httpHeaderAuth', id: '7' })]));
+    assert.match(unlisted.skippedChanges[0], /Credential list from n8n is not available/);
+  });
+});
+
+describe('applyFix oldValue conflicts', () => {
+  it('refuses a fix whose oldValue no longer matches', () => {
+    const result = applyFix(
+      workflow(),
+      fix([
+        { changeType: 'modify_node', nodeName: 'Fetch', path: 'parameters.timeout', oldValue: 1000, newValue: 5000, description: 'Raise timeout' },
+      ])
+    );
+
+    assert.equal(result.success, false);
+    assert.match(result.error!, /Stale fix/);
+    assert.deepEqual(result.conflicts, [
+      { description: 'Raise timeout', nodeName: 'Fetch', path: 'parameters.timeout', expected: 1000, actual: 3000 },
+    ]);
+  });
+
+  it('compares quoted numbers and null loosely', () => {
+    const result = applyFix(
+      workflow(),
+      fix([
+        { changeType: 'modify_node', nodeName: 'Fetch', path: 'parameters.timeout', oldValue: '3000', newValue: 5000, description: 'Raise timeout' },
+        { changeType: 'modify_node', nodeName: 'Fetch', path: 'parameters.retries', oldValue: null, newValue: 3, description: 'Add retries' },
+      ])
+    );
+
+    assert.equal(result.success, true);
+    assert.deepEqual(result.conflicts, []);
+    assert.equal(result.patchedWorkflow!.nodes[1].parameters.timeout, 5000);
+  });
+
+  it('compares only the keys a node merge names', () => {
+    const result = applyFix(
+      workflow(),
+      fix([{ changeType: 'modify_node', nodeName: 'Fetch', oldValue: { disabled: null }, newValue: { disabled: true }, description: 'Disable' }])
+    );
+
+    assert.equal(result.success, true);
+  });
+
+  it('compares only the keys a settings merge names', () => {
+    const result = applyFix(
+      workflow(),
+      fix([
+        { changeType: 'modify_settings', oldValue: { executionTimeout: 300 }, newValue: { executionTimeout: 600 }, description: 'Longer timeout' },
+      ])
+    );
+
+    assert.equal(result.success, true);
+    assert.deepEqual(result.patchedWorkflow!.settings, { executionOrder: 'v1', executionTimeout: 600 });
+  });
+
+  it('reports a changed key of a settings merge', () => {
+    const result = applyFix(
+      workflow(),
+      fix([
+        { changeType: 'modify_settings', oldValue: { executionTimeout: 120 }, newValue: { executionTimeout: 600 }, description: 'Longer timeout' },
+      ])
+    );
+
+    assert.equal(result.success, false);
+    assert.deepEqual(result.conflicts[0].actual, { executionTimeout: 300 });
+  });
+});
+
+describe('applyFix validation', () => {
+  it('ignores errors the workflow already had, after a rename', () => {
+    const data = workflow();
+    data.nodes[2].parameters.value = "={{ $('Missing').item.json.id }}";
+
+    const result = applyFix(data, fix([{ changeType: 'rename_node', nodeName: 'Save', newValue: 'Store', description: 'Rename' }]));
+
+    assert.equal(result.success, true);
+    assert.deepEqual(result.validationErrors, []);
+    assert.equal(result.validationIssues[0].code, 'unknown_node_reference');
+  });
+
+  it('rejects errors the patch introduces', () => {
+    const result = applyFix(
+      workflow(),
+      fix([{ changeType: 'modify_node', nodeName: 'Save', path: 'parameters.value', newValue: "={{ $('Missing').item.json.id }}", description: 'Break' }])
+    );
+
+    assert.equal(result.success, false);
+    assert.match(result.validationErrors[0], /references node "Missing"/);
+  });
+});
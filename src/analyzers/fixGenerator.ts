@@ -1,77 +1,281 @@
 import { logger } from '../utils/logger.js';
-import type { ErrorAnalysis, WorkflowData, WorkflowChange, WorkflowNode } from '../types/index.js';
+import { applyAtPath, getValueAtPath } from './valuePath.js';
+import { validateWorkflow, issueKey, type ValidationIssue } from './workflowValidator.js';
+import { renameNodeReferences } from './expressionAnalyzer.js';
+import { isDeepEqual } from '../utils/deepEqual.js';
+import { calculatePosition, makeRoomBetween } from './layout.js';
+import type {
+  ConnectionChange,
+  ConnectionTarget,
+  CredentialChange,
+  InsertNodeChange,
+  CredentialSummary,
+  ErrorAnalysis,
+  WorkflowData,
+  WorkflowChange,
+  WorkflowNode,
+} from '../types/index.js';
 
 export interface PatchResult {
   success: boolean;
+  // atomic: any failed change aborts the whole patch. partial: failed change groups are dropped
+  mode: 'atomic' | 'partial';
   patchedWorkflow?: WorkflowData;
   error?: string;
   appliedChanges: string[];
   skippedChanges: string[];
+  // Changes that applied cleanly but were undone because a change they depend on failed
+  rolledBackChanges: string[];
+  // Changes whose oldValue no longer matches the workflow - any of these makes the fix stale
+  conflicts: ValueConflict[];
+  // Errors the patch would introduce - any of these rejects the patch
+  validationErrors: string[];
+  // Every issue found in the patched workflow, including warnings and pre-existing problems
+  validationIssues: ValidationIssue[];
 }
 
-export function applyFix(workflow: WorkflowData, analysis: ErrorAnalysis): PatchResult {
-  const appliedChanges: string[] = [];
-  const skippedChanges: string[] = [];
+// A value that changed between analysis and apply
+export interface ValueConflict {
+  description: string;
+  nodeName?: string;
+  path?: string;
+  expected: unknown;
+  actual: unknown;
+}
 
-  // Deep clone the workflow to avoid mutations
-  const patchedWorkflow: WorkflowData = JSON.parse(JSON.stringify(workflow));
+export interface PatchOptions {
+  // Overrides the proposal's own atomic setting
+  atomic?: boolean;
+  // Credentials listed from n8n - set_credential can only pick one of these
+  credentials?: CredentialSummary[];
+}
 
-  for (const change of analysis.suggestedFix.changes) {
-    try {
-      const result = applyChange(patchedWorkflow, change);
-      if (result.success) {
-        appliedChanges.push(change.description);
-      } else {
-        skippedChanges.push(`${change.description}: ${result.error}`);
-      }
-    } catch (error) {
-      skippedChanges.push(`${change.description}: ${(error as Error).message}`);
-      logger.warn('Failed to apply change', {
-        change: change.description,
-        error: (error as Error).message,
-      });
-    }
+export function applyFix(workflow: WorkflowData, analysis: ErrorAnalysis, options: PatchOptions = {}): PatchResult {
+  const changes = analysis.suggestedFix.changes;
+  const mode = (options.atomic ?? analysis.suggestedFix.atomic ?? changes.length > 1) ? 'atomic' : 'partial';
+
+  // Ungrouped changes stand alone
+  const groupOf = (index: number) => changes[index].group ?? `#${index}`;
+  const droppedGroups = new Set<string>();
+  const failures = new Map<number, string>();
+
+  let pass = runChanges(workflow, changes, options, () => true);
+  pass.failures.forEach((reason, index) => failures.set(index, reason));
+
+  // The proposal was made against values that are no longer there, so none of it is trustworthy
+  if (pass.conflicts.size > 0) {
+    return {
+      success: false,
+      mode,
+      error: `Stale fix: ${pass.conflicts.size} value(s) changed since the fix was proposed`,
+      appliedChanges: [],
+      skippedChanges: formatFailures(changes, failures),
+      rolledBackChanges: pass.applied.map((index) => changes[index].description),
+      conflicts: Array.from(pass.conflicts.values()),
+      validationErrors: [],
+      validationIssues: [],
+    };
   }
 
+  if (mode === 'atomic' && failures.size > 0) {
+    const skippedChanges = formatFailures(changes, failures);
+    return {
+      success: false,
+      mode,
+      error: `Atomic patch aborted, nothing was applied. Failed: ${skippedChanges.join('; ')}`,
+      appliedChanges: [],
+      skippedChanges,
+      rolledBackChanges: pass.applied.map((index) => changes[index].description),
+      conflicts: [],
+      validationErrors: [],
+      validationIssues: [],
+    };
+  }
+
+  // Drop the groups of failed changes and start over, since later changes may have built on them.
+  // Repeat until a pass drops nothing new.
+  while (pass.failures.size > 0) {
+    pass.failures.forEach((_, index) => droppedGroups.add(groupOf(index)));
+    pass = runChanges(workflow, changes, options, (index) => !droppedGroups.has(groupOf(index)));
+    pass.failures.forEach((reason, index) => failures.set(index, reason));
+  }
+
+  const patchedWorkflow = pass.patchedWorkflow;
+  const appliedChanges = pass.applied.map((index) => changes[index].description);
+  const skippedChanges = formatFailures(changes, failures);
+  const rolledBackChanges = changes
+    .map((change, index) => ({ change, index }))
+    .filter(({ index }) => droppedGroups.has(groupOf(index)) && !failures.has(index))
+    .map(({ change, index }) => `${change.description} (depends on a failed change in group ${groupOf(index)})`);
+
+  // Validate the patched workflow. Problems the workflow already had don't block a fix,
+  // only errors the patch itself introduces do.
+  const baseline = new Set(validateWorkflow(workflow).issues.map(issueKey));
+  const validationIssues = validateWorkflow(patchedWorkflow).issues;
+  const validationErrors = validationIssues
+    .filter((issue) => issue.severity === 'error' && !baseline.has(issueKey(issue)))
+    .map((issue) => issue.message);
+
   if (appliedChanges.length === 0) {
     return {
       success: false,
-      error: 'No changes could be applied',
+      mode,
+      error: `No changes could be applied: ${skippedChanges.join('; ')}`,
       appliedChanges,
       skippedChanges,
+      rolledBackChanges,
+      conflicts: [],
+      validationErrors,
+      validationIssues,
     };
   }
 
-  // Validate the patched workflow
-  const validationResult = validateWorkflow(patchedWorkflow);
-  if (!validationResult.valid) {
+  // The patched workflow is returned even when invalid so callers can preview it
+  if (validationErrors.length > 0) {
     return {
       success: false,
-      error: `Validation failed: ${validationResult.errors.join(', ')}`,
+      mode,
+      patchedWorkflow,
+      error: `Validation failed: ${validationErrors.join(', ')}`,
       appliedChanges,
       skippedChanges,
+      rolledBackChanges,
+      conflicts: [],
+      validationErrors,
+      validationIssues,
     };
   }
 
   logger.info('Fix applied successfully', {
+    mode,
     applied: appliedChanges.length,
     skipped: skippedChanges.length,
+    rolledBack: rolledBackChanges.length,
+    warnings: validationIssues.filter((i) => i.severity === 'warning').length,
   });
 
   return {
     success: true,
+    mode,
     patchedWorkflow,
     appliedChanges,
     skippedChanges,
+    rolledBackChanges,
+    conflicts: [],
+    validationErrors: [],
+    validationIssues,
+  };
+}
+
+interface ChangePass {
+  patchedWorkflow: WorkflowData;
+  applied: number[];
+  failures: Map<number, string>;
+  conflicts: Map<number, ValueConflict>;
+}
+
+// Apply the selected changes, in order, to a fresh copy of the workflow
+function runChanges(
+  workflow: WorkflowData,
+  changes: WorkflowChange[],
+  options: PatchOptions,
+  include: (index: number) => boolean
+): ChangePass {
+  // Deep clone the workflow to avoid mutations
+  const patchedWorkflow: WorkflowData = JSON.parse(JSON.stringify(workflow));
+  const applied: number[] = [];
+  const failures = new Map<number, string>();
+  const conflicts = new Map<number, ValueConflict>();
+
+  changes.forEach((change, index) => {
+    if (!include(index)) return;
+
+    const conflict = findValueConflict(patchedWorkflow, change);
+    if (conflict) {
+      conflicts.set(index, conflict);
+      return;
+    }
+
+    try {
+      const result = applyChange(patchedWorkflow, change, options);
+      if (result.success) {
+        applied.push(index);
+      } else {
+        failures.set(index, result.error ?? 'Unknown error');
+      }
+    } catch (error) {
+      failures.set(index, (error as Error).message);
+      logger.warn('Failed to apply change', {
+        change: change.description,
+        error: (error as Error).message,
+      });
+    }
+  });
+
+  return { patchedWorkflow, applied, failures, conflicts };
+}
+
+// Compare the value a change expects to replace with what the workflow holds now.
+// Only modify_node and modify_settings carry a meaningful oldValue.
+function findValueConflict(workflow: WorkflowData, change: WorkflowChange): ValueConflict | undefined {
+  if (change.oldValue === undefined || (change.changeType !== 'modify_node' && change.changeType !== 'modify_settings')) {
+    return undefined;
+  }
+
+  const node = workflow.nodes.find((n) => n.name === change.nodeName) as unknown as Record<string, unknown> | undefined;
+  if (change.changeType === 'modify_node' && !node) {
+    // Reported as a missing node by modifyNode
+    return undefined;
+  }
+
+  // Without a path both change types merge into the node or the settings
+  const mergeTarget = change.changeType === 'modify_node' ? node : (workflow.settings ?? {});
+
+  let actual: unknown;
+  if (!change.path && mergeTarget && typeof change.oldValue === 'object' && change.oldValue !== null) {
+    // A merge only replaces the keys it names, so compare just those
+    actual = Object.fromEntries(Object.keys(change.oldValue).map((key) => [key, mergeTarget[key]]));
+  } else {
+    actual = getCurrentValue(workflow, change);
+  }
+
+  if (isDeepEqual(normalizeForComparison(actual), normalizeForComparison(change.oldValue))) {
+    return undefined;
+  }
+
+  return {
+    description: change.description,
+    nodeName: change.changeType === 'modify_node' ? change.nodeName : undefined,
+    path: change.path,
+    expected: change.oldValue,
+    actual,
   };
 }
 
+// oldValue is written by the model, which often quotes numbers ("30000" for 30000) and uses null
+// for a value that is not set. Neither means the workflow changed, so both are compared loosely.
+function normalizeForComparison(value: unknown): unknown {
+  if (value === null || value === undefined) return undefined;
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  if (Array.isArray(value)) return value.map(normalizeForComparison);
+  if (typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, child]) => [key, normalizeForComparison(child)]));
+  }
+  return value;
+}
+
+function formatFailures(changes: WorkflowChange[], failures: Map<number, string>): string[] {
+  return Array.from(failures.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([index, reason]) => `${changes[index].description}: ${reason}`);
+}
+
 interface ChangeResult {
   success: boolean;
   error?: string;
 }
 
-function applyChange(workflow: WorkflowData, change: WorkflowChange): ChangeResult {
+function applyChange(workflow: WorkflowData, change: WorkflowChange, options: PatchOptions): ChangeResult {
   switch (change.changeType) {
     case 'modify_node':
       return modifyNode(workflow, change);
@@ -83,6 +287,12 @@ function applyChange(workflow: WorkflowData, change: WorkflowChange): ChangeResu
       return modifyConnection(workflow, change);
     case 'modify_settings':
       return modifySettings(workflow, change);
+    case 'rename_node':
+      return renameNode(workflow, change);
+    case 'insert_node_between':
+      return insertNodeBetween(workflow, change);
+    case 'set_credential':
+      return setCredential(workflow, change, options.credentials);
     default:
       return { success: false, error: `Unknown change type: ${change.changeType}` };
   }
@@ -102,20 +312,9 @@ function modifyNode(workflow: WorkflowData, change: WorkflowChange): ChangeResul
   const node = workflow.nodes[nodeIndex];
 
   if (change.path) {
-    // Apply change at specific path
-    const pathParts = change.path.split('.');
-    let target: Record<string, unknown> = node as unknown as Record<string, unknown>;
-
-    for (let i = 0; i < pathParts.length - 1; i++) {
-      const part = pathParts[i];
-      if (target[part] === undefined) {
-        target[part] = {};
-      }
-      target = target[part] as Record<string, unknown>;
-    }
-
-    const lastPart = pathParts[pathParts.length - 1];
-    target[lastPart] = change.newValue;
+    return applyAtPath(node as unknown as Record<string, unknown>, change.path, change.operation ?? 'set', change.newValue);
+  } else if (change.operation && change.operation !== 'set') {
+    return { success: false, error: `Path required for ${change.operation} on modify_node` };
   } else if (typeof change.newValue === 'object' && change.newValue !== null) {
     // Merge new values into node
     Object.assign(node, change.newValue);
@@ -152,6 +351,72 @@ function addNode(workflow: WorkflowData, change: WorkflowChange): ChangeResult {
   return { success: true };
 }
 
+// Splice a new node into an existing main connection: from -> node -> to
+function insertNodeBetween(workflow: WorkflowData, change: WorkflowChange): ChangeResult {
+  const insertion = change.newValue as InsertNodeChange;
+  const newNode = insertion?.node;
+
+  if (!insertion?.from || !insertion.to || !newNode?.name || !newNode.type) {
+    return { success: false, error: 'insert_node_between needs from, to and a node with name and type' };
+  }
+
+  const from = workflow.nodes.find((n) => n.name === insertion.from);
+  const to = workflow.nodes.find((n) => n.name === insertion.to);
+  if (!from) {
+    return { success: false, error: `Source node not found: ${insertion.from}` };
+  }
+  if (!to) {
+    return { success: false, error: `Target node not found: ${insertion.to}` };
+  }
+  if (workflow.nodes.some((n) => n.name === newNode.name)) {
+    return { success: false, error: `Node already exists: ${newNode.name}` };
+  }
+
+  // Find the connection to reroute
+  const outputs = workflow.connections[from.name]?.main ?? [];
+  const matches = outputs.flatMap((targets, outputIndex) =>
+    (targets ?? [])
+      .map((target, position) => ({ outputIndex, position, target }))
+      .filter(({ target }) => target.node === to.name)
+  );
+  const candidates =
+    insertion.outputIndex !== undefined ? matches.filter((m) => m.outputIndex === insertion.outputIndex) : matches;
+
+  if (candidates.length === 0) {
+    return { success: false, error: `No main connection from ${from.name} to ${to.name}` };
+  }
+  if (candidates.length > 1) {
+    return {
+      success: false,
+      error: `${from.name} connects to ${to.name} through outputs ${candidates.map((c) => c.outputIndex).join(', ')}; set outputIndex`,
+    };
+  }
+
+  const { outputIndex, position, target } = candidates[0];
+  const newOutputIndex = insertion.newNodeOutputIndex ?? 0;
+
+  const nodeToAdd: WorkflowNode = {
+    id: newNode.id || generateNodeId(),
+    name: newNode.name,
+    type: newNode.type,
+    typeVersion: newNode.typeVersion || 1,
+    position: makeRoomBetween(workflow, from, to),
+    parameters: newNode.parameters || {},
+  };
+  workflow.nodes.push(nodeToAdd);
+
+  // from now feeds the new node, which feeds to through the same input as before
+  outputs[outputIndex][position] = { node: nodeToAdd.name, type: 'main', index: 0 };
+  const newOutputs: ConnectionTarget[][] = [];
+  for (let i = 0; i <= newOutputIndex; i++) {
+    newOutputs.push([]);
+  }
+  newOutputs[newOutputIndex].push({ node: to.name, type: 'main', index: target.index });
+  workflow.connections[nodeToAdd.name] = { main: newOutputs };
+
+  return { success: true };
+}
+
 function removeNode(workflow: WorkflowData, change: WorkflowChange): ChangeResult {
   const nodeName = change.nodeName;
   if (!nodeName) {
@@ -166,14 +431,15 @@ function removeNode(workflow: WorkflowData, change: WorkflowChange): ChangeResul
   // Remove the node
   workflow.nodes.splice(nodeIndex, 1);
 
-  // Remove connections to/from this node
+  // Remove connections to/from this node, across every connection type
   delete workflow.connections[nodeName];
   for (const connections of Object.values(workflow.connections)) {
-    if (connections.main) {
-      for (const outputs of connections.main) {
-        const filteredOutputs = outputs.filter((o) => o.node !== nodeName);
-        outputs.length = 0;
-        outputs.push(...filteredOutputs);
+    for (const outputs of Object.values(connections)) {
+      for (const targets of outputs ?? []) {
+        if (!targets) continue;
+        const filteredTargets = targets.filter((t) => t.node !== nodeName);
+        targets.length = 0;
+        targets.push(...filteredTargets);
       }
     }
   }
@@ -182,19 +448,13 @@ function removeNode(workflow: WorkflowData, change: WorkflowChange): ChangeResul
 }
 
 function modifyConnection(workflow: WorkflowData, change: WorkflowChange): ChangeResult {
-  const connectionChange = change.newValue as {
-    from: string;
-    to: string;
-    action: 'add' | 'remove';
-    outputIndex?: number;
-    inputIndex?: number;
-  };
+  const connectionChange = change.newValue as ConnectionChange;
 
   if (!connectionChange || !connectionChange.from || !connectionChange.to) {
     return { success: false, error: 'Invalid connection change' };
   }
 
-  const { from, to, action, outputIndex = 0, inputIndex = 0 } = connectionChange;
+  const { from, to, action, connectionType = 'main', outputIndex = 0, inputIndex = 0 } = connectionChange;
 
   // Verify nodes exist
   if (!workflow.nodes.some((n) => n.name === from)) {
@@ -205,141 +465,183 @@ function modifyConnection(workflow: WorkflowData, change: WorkflowChange): Chang
   }
 
   if (action === 'add') {
-    if (!workflow.connections[from]) {
-      workflow.connections[from] = { main: [[]] };
+    const connections = (workflow.connections[from] ??= {});
+    const outputs = (connections[connectionType] ??= []);
+    while (outputs.length <= outputIndex) {
+      outputs.push([]);
     }
-    while (workflow.connections[from].main.length <= outputIndex) {
-      workflow.connections[from].main.push([]);
+    // n8n stores unconnected outputs as null
+    outputs[outputIndex] ??= [];
+    if (outputs[outputIndex].some((t) => t.node === to && t.type === connectionType && t.index === inputIndex)) {
+      return { success: false, error: `Connection already exists: ${from} -> ${to} (${connectionType})` };
     }
-    workflow.connections[from].main[outputIndex].push({
+    outputs[outputIndex].push({
       node: to,
-      type: 'main',
+      type: connectionType,
       index: inputIndex,
     });
   } else if (action === 'remove') {
-    if (workflow.connections[from]?.main?.[outputIndex]) {
-      const connections = workflow.connections[from].main[outputIndex];
-      const idx = connections.findIndex((c) => c.node === to);
-      if (idx !== -1) {
-        connections.splice(idx, 1);
-      }
+    const targets = workflow.connections[from]?.[connectionType]?.[outputIndex];
+    const idx = targets ? targets.findIndex((t) => t.node === to && t.type === connectionType) : -1;
+    if (idx === -1) {
+      return { success: false, error: `No ${connectionType} connection from ${from} output ${outputIndex} to ${to}` };
     }
+    targets!.splice(idx, 1);
+  } else {
+    return { success: false, error: `Unknown connection action: ${action}` };
   }
 
   return { success: true };
 }
 
-function modifySettings(workflow: WorkflowData, change: WorkflowChange): ChangeResult {
-  if (!workflow.settings) {
-    workflow.settings = {};
+function renameNode(workflow: WorkflowData, change: WorkflowChange): ChangeResult {
+  const oldName = change.nodeName;
+  const newName = typeof change.newValue === 'string' ? change.newValue.trim() : '';
+  if (!oldName) {
+    return { success: false, error: 'Node name required for rename_node' };
+  }
+  if (!newName) {
+    return { success: false, error: 'New name for rename_node must be a non-empty string' };
   }
 
-  if (change.path) {
-    const pathParts = change.path.split('.');
-    let target = workflow.settings;
+  const node = workflow.nodes.find((n) => n.name === oldName);
+  if (!node) {
+    return { success: false, error: `Node not found: ${oldName}` };
+  }
+  if (newName === oldName) {
+    return { success: false, error: `Node is already named ${newName}` };
+  }
+  if (workflow.nodes.some((n) => n.name === newName)) {
+    return { success: false, error: `Cannot rename ${oldName}: a node named ${newName} already exists` };
+  }
+
+  node.name = newName;
 
-    for (let i = 0; i < pathParts.length - 1; i++) {
-      const part = pathParts[i];
-      if (target[part] === undefined) {
-        target[part] = {};
+  // Outgoing connections are keyed by node name
+  if (workflow.connections[oldName]) {
+    workflow.connections[newName] = workflow.connections[oldName];
+    delete workflow.connections[oldName];
+  }
+
+  // Incoming connections, across every connection type
+  for (const connections of Object.values(workflow.connections)) {
+    for (const outputs of Object.values(connections)) {
+      for (const targets of outputs ?? []) {
+        for (const target of targets ?? []) {
+          if (target.node === oldName) {
+            target.node = newName;
+          }
+        }
       }
-      target = target[part] as Record<string, unknown>;
     }
+  }
 
-    const lastPart = pathParts[pathParts.length - 1];
-    target[lastPart] = change.newValue;
-  } else if (typeof change.newValue === 'object' && change.newValue !== null) {
-    Object.assign(workflow.settings, change.newValue);
+  // Expressions and code in every node that read from the renamed node
+  for (const other of workflow.nodes) {
+    other.parameters = renameInValue(other.parameters, oldName, newName) as Record<string, unknown>;
   }
 
   return { success: true };
 }
 
-function generateNodeId(): string {
-  return `node-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
-}
+// Point a node at another existing credential. Only { id, name } references are written,
+// and only to credentials n8n listed with the matching type.
+function setCredential(workflow: WorkflowData, change: WorkflowChange, allowlist?: CredentialSummary[]): ChangeResult {
+  const nodeName = change.nodeName;
+  if (!nodeName) {
+    return { success: false, error: 'Node name required for set_credential' };
+  }
 
-function calculatePosition(workflow: WorkflowData): [number, number] {
-  if (workflow.nodes.length === 0) {
-    return [250, 300];
+  const node = workflow.nodes.find((n) => n.name === nodeName);
+  if (!node) {
+    return { success: false, error: `Node not found: ${nodeName}` };
   }
 
-  // Find the rightmost position and add offset
-  let maxX = 0;
-  let avgY = 0;
+  const reference = change.newValue as Partial<CredentialChange> | undefined;
+  if (!reference?.credentialType || !reference.id) {
+    return { success: false, error: 'set_credential needs credentialType and id' };
+  }
 
-  for (const node of workflow.nodes) {
-    if (node.position[0] > maxX) {
-      maxX = node.position[0];
-    }
-    avgY += node.position[1];
+  if (!allowlist) {
+    return { success: false, error: 'Credential list from n8n is not available' };
   }
 
-  avgY = Math.round(avgY / workflow.nodes.length);
+  const credential = allowlist.find((c) => c.id === String(reference.id));
+  if (!credential) {
+    return { success: false, error: `Credential ${reference.id} is not one of the credentials listed by n8n` };
+  }
+  if (credential.type !== reference.credentialType) {
+    return {
+      success: false,
+      error: `Credential ${credential.name} is of type ${credential.type}, not ${reference.credentialType}`,
+    };
+  }
 
-  return [maxX + 200, avgY];
-}
+  node.credentials = {
+    ...(node.credentials ?? {}),
+    [credential.type]: { id: credential.id, name: credential.name },
+  };
 
-interface ValidationResult {
-  valid: boolean;
-  errors: string[];
+  return { success: true };
 }
 
-function validateWorkflow(workflow: WorkflowData): ValidationResult {
-  const errors: string[] = [];
+// The set_credential changes of a proposal, which updateWorkflow has to honor explicitly
+export function getCredentialChanges(proposal: { changes: WorkflowChange[] }): WorkflowChange[] {
+  return proposal.changes.filter((c) => c.changeType === 'set_credential');
+}
 
-  // Check required fields
-  if (!workflow.id) {
-    errors.push('Workflow ID is missing');
+function renameInValue(value: unknown, oldName: string, newName: string): unknown {
+  if (typeof value === 'string') {
+    return renameNodeReferences(value, oldName, newName);
   }
+  if (Array.isArray(value)) {
+    return value.map((item) => renameInValue(item, oldName, newName));
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, child]) => [key, renameInValue(child, oldName, newName)]));
+  }
+  return value;
+}
 
-  if (!workflow.name) {
-    errors.push('Workflow name is missing');
+function modifySettings(workflow: WorkflowData, change: WorkflowChange): ChangeResult {
+  if (!workflow.settings) {
+    workflow.settings = {};
   }
 
-  if (!Array.isArray(workflow.nodes)) {
-    errors.push('Nodes array is invalid');
-    return { valid: false, errors };
+  if (change.path) {
+    return applyAtPath(workflow.settings, change.path, change.operation ?? 'set', change.newValue);
+  } else if (change.operation && change.operation !== 'set') {
+    return { success: false, error: `Path required for ${change.operation} on modify_settings` };
+  } else if (typeof change.newValue === 'object' && change.newValue !== null) {
+    Object.assign(workflow.settings, change.newValue);
   }
 
-  // Check for duplicate node names
-  const nodeNames = new Set<string>();
-  for (const node of workflow.nodes) {
-    if (!node.name) {
-      errors.push('Node with missing name found');
-      continue;
-    }
-    if (nodeNames.has(node.name)) {
-      errors.push(`Duplicate node name: ${node.name}`);
-    }
-    nodeNames.add(node.name);
+  return { success: true };
+}
 
-    if (!node.type) {
-      errors.push(`Node ${node.name} is missing type`);
-    }
+// The value a change would overwrite in the given workflow
+export function getCurrentValue(workflow: WorkflowData, change: WorkflowChange): unknown {
+  if (change.changeType === 'modify_node') {
+    const node = workflow.nodes.find((n) => n.name === change.nodeName);
+    if (!node) return undefined;
+    return change.path ? getValueAtPath(node, change.path) : undefined;
   }
 
-  // Validate connections reference existing nodes
-  for (const [sourceName, connections] of Object.entries(workflow.connections)) {
-    if (!nodeNames.has(sourceName)) {
-      errors.push(`Connection from non-existent node: ${sourceName}`);
-    }
+  if (change.changeType === 'set_credential') {
+    const node = workflow.nodes.find((n) => n.name === change.nodeName);
+    const credentialType = (change.newValue as Partial<CredentialChange> | undefined)?.credentialType;
+    return credentialType ? node?.credentials?.[credentialType] : undefined;
+  }
 
-    if (connections.main) {
-      for (const outputs of connections.main) {
-        for (const output of outputs) {
-          if (!nodeNames.has(output.node)) {
-            errors.push(`Connection to non-existent node: ${output.node}`);
-          }
-        }
-      }
-    }
+  if (change.changeType === 'modify_settings') {
+    return change.path ? getValueAtPath(workflow.settings ?? {}, change.path) : workflow.settings;
   }
 
-  return {
-    valid: errors.length === 0,
-    errors,
-  };
+  return undefined;
+}
+
+function generateNodeId(): string {
+  return `node-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
 }
 
 export function generatePatchDescription(analysis: ErrorAnalysis): string {
@@ -0,0 +1,59 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { calculatePosition, makeRoomBetween } from './layout.js';
+import type { WorkflowConnections, WorkflowData, WorkflowNode } from '../types/index.js';
+
+function node(name: string, x: number, y = 0): WorkflowNode {
+  return { id: `id-${name}`, name, type: 'n8n-nodes-base.set', typeVersion: 1, position: [x, y], parameters: {} };
+}
+
+function main(...targets: string[]): WorkflowConnections {
+  return { main: [targets.map((target) => ({ node: target, type: 'main', index: 0 }))] };
+}
+
+function workflow(nodes: WorkflowNode[], connections: Record<string, WorkflowConnections>): WorkflowData {
+  return { id: 'wf1', name: 'Test', active: false, nodes, connections };
+}
+
+const positions = (data: WorkflowData) => Object.fromEntries(data.nodes.map((n) => [n.name, n.position]));
+
+describe('makeRoomBetween', () => {
+  it('shifts the target and what follows it to fit a node in between', () => {
+    const data = workflow([node('A', 0), node('B', 200), node('C', 400)], { A: main('B'), B: main('C') });
+
+    assert.deepEqual(makeRoomBetween(data, data.nodes[0], data.nodes[1]), [200, 0]);
+    assert.deepEqual(positions(data), { A: [0, 0], B: [400, 0], C: [600, 0] });
+  });
+
+  it('uses the midpoint without moving anything when there is room', () => {
+    const data = workflow([node('A', 0), node('B', 600, 100)], { A: main('B') });
+
+    assert.deepEqual(makeRoomBetween(data, data.nodes[0], data.nodes[1]), [300, 50]);
+    assert.deepEqual(positions(data), { A: [0, 0], B: [600, 100] });
+  });
+
+  it('moves attached sub-nodes along but leaves nodes left of the target in place', () => {
+    const data = workflow([node('Trigger', 0), node('Agent', 200), node('Model', 200, 200), node('Early', 100, 300)], {
+      Trigger: main('Agent'),
+      Agent: main('Early'),
+      Model: { ai_languageModel: [[{ node: 'Agent', type: 'ai_languageModel', index: 0 }]] },
+    });
+
+    makeRoomBetween(data, data.nodes[0], data.nodes[1]);
+    assert.deepEqual(positions(data), { Trigger: [0, 0], Agent: [400, 0], Model: [400, 200], Early: [100, 300] });
+  });
+
+  it('places a node on a loop back edge below whatever sits at the midpoint', () => {
+    const data = workflow([node('A', 0), node('B', 200), node('C', 400)], { A: main('B'), B: main('C'), C: main('A') });
+
+    assert.deepEqual(makeRoomBetween(data, data.nodes[2], data.nodes[0]), [200, 100]);
+    assert.deepEqual(positions(data), { A: [0, 0], B: [200, 0], C: [400, 0] });
+  });
+});
+
+describe('calculatePosition', () => {
+  it('places new nodes right of the rightmost node at the average height', () => {
+    assert.deepEqual(calculatePosition(workflow([node('A', 0, 0), node('B', 400, 200)], {})), [600, 100]);
+    assert.deepEqual(calculatePosition(workflow([], {})), [250, 300]);
+  });
+});
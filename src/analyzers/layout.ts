@@ -0,0 +1,101 @@
+import type { WorkflowData, WorkflowNode } from '../types/index.js';
+
+// Horizontal distance between the centers of neighbouring nodes in the editor
+export const NODE_SPACING = 200;
+
+// Nodes closer than this on both axes are drawn on top of each other
+const OVERLAP_X = 120;
+const OVERLAP_Y = 100;
+
+export function calculatePosition(workflow: WorkflowData): [number, number] {
+  if (workflow.nodes.length === 0) {
+    return [250, 300];
+  }
+
+  // Find the rightmost position and add offset
+  let maxX = 0;
+  let avgY = 0;
+
+  for (const node of workflow.nodes) {
+    if (node.position[0] > maxX) {
+      maxX = node.position[0];
+    }
+    avgY += node.position[1];
+  }
+
+  avgY = Math.round(avgY / workflow.nodes.length);
+
+  return [maxX + NODE_SPACING, avgY];
+}
+
+// Make room for a node between two others: moves `to` and everything right of it that depends on it
+// far enough right, then returns the midpoint. Backward edges (loops) get the midpoint without shifting.
+export function makeRoomBetween(workflow: WorkflowData, from: WorkflowNode, to: WorkflowNode): [number, number] {
+  const shift = from.position[0] + 2 * NODE_SPACING - to.position[0];
+
+  if (to.position[0] > from.position[0] && shift > 0) {
+    for (const node of findDownstreamNodes(workflow, to, from)) {
+      node.position = [node.position[0] + shift, node.position[1]];
+    }
+  }
+
+  const midpoint: [number, number] = [
+    Math.round((from.position[0] + to.position[0]) / 2),
+    Math.round((from.position[1] + to.position[1]) / 2),
+  ];
+
+  return findFreePosition(workflow, midpoint);
+}
+
+// `start` and every node after it, plus the sub-nodes (models, tools) drawn beneath them.
+// Nodes left of `start` are excluded so loops back to the beginning don't drag it along.
+function findDownstreamNodes(workflow: WorkflowData, start: WorkflowNode, exclude: WorkflowNode): WorkflowNode[] {
+  const byName = new Map(workflow.nodes.map((n) => [n.name, n]));
+  const visited = new Set<string>([start.name]);
+  const queue = [start.name];
+
+  while (queue.length > 0) {
+    const name = queue.shift()!;
+    for (const targets of workflow.connections[name]?.main ?? []) {
+      for (const target of targets ?? []) {
+        const node = byName.get(target.node);
+        if (!node || visited.has(node.name) || node.name === exclude.name) continue;
+        if (node.position[0] < start.position[0]) continue;
+        visited.add(node.name);
+        queue.push(node.name);
+      }
+    }
+  }
+
+  // Sub-nodes can hang off other sub-nodes (embeddings -> vector store -> agent)
+  let added = true;
+  while (added) {
+    added = false;
+    for (const [sourceName, connections] of Object.entries(workflow.connections)) {
+      if (visited.has(sourceName) || sourceName === exclude.name) continue;
+      const attached = Object.entries(connections).some(
+        ([connectionType, outputs]) =>
+          connectionType !== 'main' && (outputs ?? []).some((targets) => (targets ?? []).some((t) => visited.has(t.node)))
+      );
+      if (attached) {
+        visited.add(sourceName);
+        added = true;
+      }
+    }
+  }
+
+  return Array.from(visited)
+    .map((name) => byName.get(name))
+    .filter((node): node is WorkflowNode => node !== undefined);
+}
+
+// Nearest spot below `position` that no existing node covers
+function findFreePosition(workflow: WorkflowData, position: [number, number]): [number, number] {
+  let [x, y] = position;
+  while (
+    workflow.nodes.some((n) => Math.abs(n.position[0] - x) < OVERLAP_X && Math.abs(n.position[1] - y) < OVERLAP_Y)
+  ) {
+    y += OVERLAP_Y;
+  }
+  return [x, y];
+}
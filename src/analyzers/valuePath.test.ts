@@ -0,0 +1,92 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { applyAtPath, getValueAtPath, parsePath } from './valuePath.js';
+
+describe('parsePath', () => {
+  it('parses dotted paths, numeric keys and bracket indices', () => {
+    assert.deepEqual(parsePath('parameters.rules.0.value'), [
+      { type: 'key', key: 'parameters' },
+      { type: 'key', key: 'rules' },
+      { type: 'key', key: '0' },
+      { type: 'key', key: 'value' },
+    ]);
+    assert.deepEqual(parsePath('parameters.assignments[2][0].value'), [
+      { type: 'key', key: 'parameters' },
+      { type: 'key', key: 'assignments' },
+      { type: 'index', index: 2 },
+      { type: 'index', index: 0 },
+      { type: 'key', key: 'value' },
+    ]);
+  });
+
+  it('parses JSON pointers with escapes and the past-the-end marker', () => {
+    assert.deepEqual(parsePath('/parameters/a~1b/c~0d/-'), [
+      { type: 'key', key: 'parameters' },
+      { type: 'key', key: 'a/b' },
+      { type: 'key', key: 'c~d' },
+      { type: 'end' },
+    ]);
+  });
+
+  it('rejects malformed segments', () => {
+    assert.throws(() => parsePath('parameters..value'), /Empty path segment/);
+    assert.throws(() => parsePath('parameters.rules[x]'), /Invalid path segment/);
+  });
+
+  it('rejects keys that reach Object.prototype', () => {
+    for (const path of ['parameters.__proto__.polluted', '/parameters/constructor/prototype', 'prototype']) {
+      assert.throws(() => parsePath(path), /is not allowed/);
+    }
+  });
+});
+
+describe('applyAtPath', () => {
+  it('creates missing containers matching the next segment', () => {
+    const target: Record<string, unknown> = {};
+    assert.deepEqual(applyAtPath(target, 'parameters.rules.0.value', 'set', 'x'), { success: true });
+    assert.deepEqual(target, { parameters: { rules: [{ value: 'x' }] } });
+  });
+
+  it('reports type mismatches instead of reshaping the value', () => {
+    const target: Record<string, unknown> = { parameters: { rules: 'text' } };
+    const result = applyAtPath(target, 'parameters.rules[0]', 'set', 1);
+    assert.equal(result.success, false);
+    assert.match(result.error!, /Expected an object or array but found a string at "parameters\.rules\[0\]"/);
+    assert.deepEqual(target, { parameters: { rules: 'text' } });
+  });
+
+  it('refuses to write past the end of an array', () => {
+    const result = applyAtPath({ list: [1] }, 'list[3]', 'set', 2);
+    assert.match(result.error!, /out of range/);
+  });
+
+  it('appends to arrays and unsets keys and items', () => {
+    const target: Record<string, unknown> = { list: [1, 2, 3], options: { a: 1, b: 2 } };
+    assert.equal(applyAtPath(target, 'list', 'append', 4).success, true);
+    assert.equal(applyAtPath(target, '/list/0', 'unset').success, true);
+    assert.equal(applyAtPath(target, 'options.a', 'unset').success, true);
+    assert.deepEqual(target, { list: [2, 3, 4], options: { b: 2 } });
+    assert.match(applyAtPath(target, 'options.missing', 'unset').error!, /Nothing to unset/);
+  });
+
+  it('never modifies Object.prototype', () => {
+    const target: Record<string, unknown> = { parameters: {} };
+    const result = applyAtPath(target, 'parameters.__proto__.polluted', 'set', 'yes');
+    assert.equal(result.success, false);
+    assert.equal(({} as Record<string, unknown>).polluted, undefined);
+  });
+});
+
+describe('getValueAtPath', () => {
+  it('reads nested values in every notation', () => {
+    const target = { parameters: { rules: [{ value: 'a' }] } };
+    assert.equal(getValueAtPath(target, 'parameters.rules[0].value'), 'a');
+    assert.equal(getValueAtPath(target, 'parameters.rules.0.value'), 'a');
+    assert.equal(getValueAtPath(target, '/parameters/rules/0/value'), 'a');
+  });
+
+  it('treats inherited properties as missing', () => {
+    assert.equal(getValueAtPath({ parameters: {} }, 'parameters.toString'), undefined);
+    assert.equal(getValueAtPath({ parameters: {} }, 'parameters.hasOwnProperty'), undefined);
+  });
+});
@@ -0,0 +1,248 @@
+// Paths into node parameters and workflow settings. Three notations are accepted:
+//   parameters.headerParameters.parameters.0.name      dotted
+//   parameters.assignments.assignments[2].value        dotted with bracket indices
+//   /parameters/assignments/assignments/2/value        RFC 6901 JSON pointer ("-" = past the end)
+// Numeric keys index into arrays and are plain keys on objects, as in RFC 6901.
+// Bracket indices are stricter and require an array.
+
+export type PathSegment =
+  | { type: 'key'; key: string }
+  | { type: 'index'; index: number }
+  | { type: 'end' };
+
+export type PathOperation = 'set' | 'unset' | 'append';
+
+export interface PathResult {
+  success: boolean;
+  error?: string;
+}
+
+const ARRAY_INDEX = /^(0|[1-9]\d*)$/;
+// Paths come from model output, so keys that reach Object.prototype are refused outright
+const FORBIDDEN_KEYS = new Set(['__proto__', 'constructor', 'prototype']);
+
+export function parsePath(path: string): PathSegment[] {
+  const segments = parseSegments(path);
+  for (const segment of segments) {
+    if (segment.type === 'key' && FORBIDDEN_KEYS.has(segment.key)) {
+      throw new Error(`Path segment "${segment.key}" is not allowed in ${path}`);
+    }
+  }
+  return segments;
+}
+
+function parseSegments(path: string): PathSegment[] {
+  if (path.startsWith('/')) {
+    return path
+      .slice(1)
+      .split('/')
+      .map((token) => token.replace(/~1/g, '/').replace(/~0/g, '~'))
+      .map((token): PathSegment => (token === '-' ? { type: 'end' } : { type: 'key', key: token }));
+  }
+
+  const segments: PathSegment[] = [];
+  for (const part of path.split('.')) {
+    const match = part.match(/^([^[\]]*)((?:\[\d+\])*)$/);
+    if (!match) {
+      throw new Error(`Invalid path segment "${part}" in ${path}`);
+    }
+
+    const [, key, indices] = match;
+    if (key) {
+      segments.push({ type: 'key', key });
+    } else if (!indices) {
+      throw new Error(`Empty path segment in ${path}`);
+    }
+
+    for (const index of indices.match(/\d+/g) ?? []) {
+      segments.push({ type: 'index', index: parseInt(index, 10) });
+    }
+  }
+
+  return segments;
+}
+
+export function formatSegment(segment: PathSegment): string {
+  switch (segment.type) {
+    case 'key':
+      return segment.key;
+    case 'index':
+      return `[${segment.index}]`;
+    case 'end':
+      return '-';
+  }
+}
+
+// Read the value at a path - undefined when any segment is missing or has the wrong type
+export function getValueAtPath(target: unknown, path: string): unknown {
+  let segments: PathSegment[];
+  try {
+    segments = parsePath(path);
+  } catch {
+    return undefined;
+  }
+
+  let current = target;
+  for (const segment of segments) {
+    const step = stepInto(current, segment);
+    if (step.error !== undefined) {
+      return undefined;
+    }
+    current = step.value;
+  }
+  return current;
+}
+
+// Apply a set, unset or append at a path, creating missing containers for set and append.
+// Type mismatches (an index into an object, a key into an array, a path through a primitive)
+// are reported instead of overwriting the existing shape.
+export function applyAtPath(target: Record<string, unknown>, path: string, operation: PathOperation, value?: unknown): PathResult {
+  let segments: PathSegment[];
+  try {
+    segments = parsePath(path);
+  } catch (error) {
+    return { success: false, error: (error as Error).message };
+  }
+
+  if (segments.length === 0) {
+    return { success: false, error: 'Path is empty' };
+  }
+
+  // Walk to the parent of the last segment
+  let container: unknown = target;
+  for (let i = 0; i < segments.length - 1; i++) {
+    const segment = segments[i];
+    const step = stepInto(container, segment);
+    if (step.error !== undefined) {
+      return { success: false, error: `${step.error} at "${describePrefix(segments, i)}"` };
+    }
+
+    if (step.value === undefined || step.value === null) {
+      if (operation === 'unset') {
+        return { success: false, error: `Nothing to unset: "${describePrefix(segments, i)}" does not exist` };
+      }
+      // Create the container the next segment expects
+      const next = segments[i + 1];
+      const created = next.type === 'key' && !ARRAY_INDEX.test(next.key) ? {} : [];
+      const assigned = assign(container, segment, created);
+      if (assigned.error) {
+        return { success: false, error: `${assigned.error} at "${describePrefix(segments, i)}"` };
+      }
+      container = created;
+    } else {
+      container = step.value;
+    }
+  }
+
+  const last = segments[segments.length - 1];
+  const location = describePrefix(segments, segments.length - 1);
+
+  switch (operation) {
+    case 'set': {
+      const assigned = assign(container, last, value);
+      return assigned.error ? { success: false, error: `${assigned.error} at "${location}"` } : { success: true };
+    }
+    case 'unset':
+      return unset(container, last, location);
+    case 'append': {
+      const step = stepInto(container, last);
+      if (step.error !== undefined) {
+        return { success: false, error: `${step.error} at "${location}"` };
+      }
+      if (step.value === undefined) {
+        const assigned = assign(container, last, [value]);
+        return assigned.error ? { success: false, error: `${assigned.error} at "${location}"` } : { success: true };
+      }
+      if (!Array.isArray(step.value)) {
+        return { success: false, error: `Cannot append: "${location}" is ${describeType(step.value)}, not an array` };
+      }
+      step.value.push(value);
+      return { success: true };
+    }
+  }
+}
+
+function stepInto(container: unknown, segment: PathSegment): { value?: unknown; error?: string } {
+  if (container === null || typeof container !== 'object') {
+    return { error: `Expected an object or array but found ${describeType(container)}` };
+  }
+
+  if (Array.isArray(container)) {
+    if (segment.type === 'end') {
+      return { value: undefined };
+    }
+    const index = segment.type === 'index' ? segment.index : ARRAY_INDEX.test(segment.key) ? parseInt(segment.key, 10) : NaN;
+    if (isNaN(index)) {
+      return { error: `Expected an array index but found key "${(segment as { key: string }).key}"` };
+    }
+    return { value: container[index] };
+  }
+
+  if (segment.type !== 'key') {
+    return { error: `Expected an object key but found array index ${formatSegment(segment)}` };
+  }
+  // Inherited properties are treated as missing
+  return { value: Object.hasOwn(container, segment.key) ? (container as Record<string, unknown>)[segment.key] : undefined };
+}
+
+function assign(container: unknown, segment: PathSegment, value: unknown): { error?: string } {
+  if (Array.isArray(container)) {
+    const index =
+      segment.type === 'end'
+        ? container.length
+        : segment.type === 'index'
+          ? segment.index
+          : ARRAY_INDEX.test(segment.key)
+            ? parseInt(segment.key, 10)
+            : NaN;
+    if (isNaN(index)) {
+      return { error: `Expected an array index but found key "${(segment as { key: string }).key}"` };
+    }
+    // Writing past the end would leave holes that serialize as null
+    if (index > container.length) {
+      return { error: `Index ${index} is out of range for an array of length ${container.length}` };
+    }
+    container[index] = value;
+    return {};
+  }
+
+  if (container === null || typeof container !== 'object') {
+    return { error: `Expected an object or array but found ${describeType(container)}` };
+  }
+  if (segment.type !== 'key') {
+    return { error: `Expected an object key but found array index ${formatSegment(segment)}` };
+  }
+  (container as Record<string, unknown>)[segment.key] = value;
+  return {};
+}
+
+function unset(container: unknown, segment: PathSegment, location: string): PathResult {
+  const step = stepInto(container, segment);
+  if (step.error !== undefined) {
+    return { success: false, error: `${step.error} at "${location}"` };
+  }
+  if (step.value === undefined) {
+    return { success: false, error: `Nothing to unset: "${location}" does not exist` };
+  }
+
+  if (Array.isArray(container)) {
+    const index = segment.type === 'index' ? segment.index : parseInt((segment as { key: string }).key, 10);
+    container.splice(index, 1);
+  } else {
+    delete (container as Record<string, unknown>)[(segment as { key: string }).key];
+  }
+  return { success: true };
+}
+
+function describePrefix(segments: PathSegment[], lastIndex: number): string {
+  return segments
+    .slice(0, lastIndex + 1)
+    .map((segment, i) => (segment.type === 'key' && i > 0 ? `.${segment.key}` : formatSegment(segment)))
+    .join('');
+}
+
+function describeType(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'an array';
+  return `a ${typeof value}`;
+}
@@ -0,0 +1,95 @@
+import type { WorkflowData } from '../types/index.js';
+
+// A single difference, addressed by an RFC 6901 JSON pointer.
+// Nodes are addressed by name (/nodes/HTTP Request/...) rather than array index.
+export interface DiffEntry {
+  op: 'add' | 'remove' | 'replace';
+  path: string;
+  oldValue?: unknown;
+  newValue?: unknown;
+}
+
+export interface WorkflowDiff {
+  addedNodes: string[];
+  removedNodes: string[];
+  modifiedNodes: string[];
+  entries: DiffEntry[];
+}
+
+export function diffWorkflows(before: WorkflowData, after: WorkflowData): WorkflowDiff {
+  const entries: DiffEntry[] = [];
+  const addedNodes: string[] = [];
+  const removedNodes: string[] = [];
+  const modifiedNodes: string[] = [];
+
+  const beforeNodes = new Map(before.nodes.map((n) => [n.name, n]));
+  const afterNodes = new Map(after.nodes.map((n) => [n.name, n]));
+
+  for (const [name, node] of beforeNodes) {
+    const pointer = `/nodes/${escapePointer(name)}`;
+    const afterNode = afterNodes.get(name);
+
+    if (!afterNode) {
+      removedNodes.push(name);
+      entries.push({ op: 'remove', path: pointer, oldValue: node });
+      continue;
+    }
+
+    const nodeEntries: DiffEntry[] = [];
+    diffValues(node, afterNode, pointer, nodeEntries);
+    if (nodeEntries.length > 0) {
+      modifiedNodes.push(name);
+      entries.push(...nodeEntries);
+    }
+  }
+
+  for (const [name, node] of afterNodes) {
+    if (!beforeNodes.has(name)) {
+      addedNodes.push(name);
+      entries.push({ op: 'add', path: `/nodes/${escapePointer(name)}`, newValue: node });
+    }
+  }
+
+  diffValues(before.connections, after.connections, '/connections', entries);
+  diffValues(before.settings ?? {}, after.settings ?? {}, '/settings', entries);
+
+  if (before.name !== after.name) {
+    entries.push({ op: 'replace', path: '/name', oldValue: before.name, newValue: after.name });
+  }
+
+  return { addedNodes, removedNodes, modifiedNodes, entries };
+}
+
+function diffValues(before: unknown, after: unknown, pointer: string, entries: DiffEntry[]): void {
+  if (before === after) return;
+
+  if (isContainer(before) && isContainer(after) && Array.isArray(before) === Array.isArray(after)) {
+    const beforeObj = before as Record<string, unknown>;
+    const afterObj = after as Record<string, unknown>;
+    const keys = new Set([...Object.keys(beforeObj), ...Object.keys(afterObj)]);
+
+    for (const key of keys) {
+      const childPointer = `${pointer}/${escapePointer(key)}`;
+      if (!(key in afterObj) || afterObj[key] === undefined) {
+        if (beforeObj[key] !== undefined) {
+          entries.push({ op: 'remove', path: childPointer, oldValue: beforeObj[key] });
+        }
+      } else if (!(key in beforeObj) || beforeObj[key] === undefined) {
+        entries.push({ op: 'add', path: childPointer, newValue: afterObj[key] });
+      } else {
+        diffValues(beforeObj[key], afterObj[key], childPointer, entries);
+      }
+    }
+    return;
+  }
+
+  entries.push({ op: 'replace', path: pointer, oldValue: before, newValue: after });
+}
+
+function isContainer(value: unknown): value is object {
+  return typeof value === 'object' && value !== null;
+}
+
+function escapePointer(segment: string): string {
+  return segment.replace(/~/g, '~0').replace(/\//g, '~1');
+}
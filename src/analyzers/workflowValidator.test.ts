@@ -0,0 +1,129 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { issueKey, validateWorkflow } from './workflowValidator.js';
+import type { WorkflowConnections, WorkflowData, WorkflowNode } from '../types/index.js';
+
+function node(name: string, type = 'n8n-nodes-base.set', extra: Partial<WorkflowNode> = {}): WorkflowNode {
+  return { id: `id-${name}`, name, type, typeVersion: 1, position: [0, 0], parameters: {}, ...extra };
+}
+
+// Targets as [from, output, to] triples over main connections
+function workflow(nodes: WorkflowNode[], links: Array<[string, number, string]>): WorkflowData {
+  const connections: Record<string, WorkflowConnections> = {};
+  for (const [from, output, to] of links) {
+    const outputs = (connections[from] ??= { main: [] }).main!;
+    while (outputs.length <= output) outputs.push([]);
+    outputs[output].push({ node: to, type: 'main', index: 0 });
+  }
+  return { id: 'wf1', name: 'Test', active: false, nodes, connections };
+}
+
+const codes = (data: WorkflowData) => validateWorkflow(data).issues.map((issue) => issue.code);
+
+describe('validateWorkflow cycles', () => {
+  it('rejects a loop with no way out', () => {
+    const data = workflow(
+      [node('Trigger', 'n8n-nodes-base.manualTrigger'), node('A'), node('B')],
+      [
+        ['Trigger', 0, 'A'],
+        ['A', 0, 'B'],
+        ['B', 0, 'A'],
+      ]
+    );
+
+    const result = validateWorkflow(data);
+    assert.equal(result.valid, false);
+    assert.deepEqual(result.errors, ['Connections form a loop with no exit: A -> B']);
+  });
+
+  it('allows loops through a loop node or with a branch leaving them', () => {
+    const batches = workflow(
+      [node('Trigger', 'n8n-nodes-base.manualTrigger'), node('Batches', 'n8n-nodes-base.splitInBatches'), node('Work')],
+      [
+        ['Trigger', 0, 'Batches'],
+        ['Batches', 0, 'Work'],
+        ['Work', 0, 'Batches'],
+      ]
+    );
+    const retry = workflow(
+      [node('Trigger', 'n8n-nodes-base.manualTrigger'), node('Check', 'n8n-nodes-base.if'), node('Wait'), node('Done')],
+      [
+        ['Trigger', 0, 'Check'],
+        ['Check', 0, 'Done'],
+        ['Check', 1, 'Wait'],
+        ['Wait', 0, 'Check'],
+      ]
+    );
+
+    assert.deepEqual(codes(batches), []);
+    assert.deepEqual(codes(retry), []);
+  });
+
+  it('rejects a node connected to itself', () => {
+    const data = workflow(
+      [node('Trigger', 'n8n-nodes-base.manualTrigger'), node('A')],
+      [
+        ['Trigger', 0, 'A'],
+        ['A', 0, 'A'],
+      ]
+    );
+
+    assert.deepEqual(codes(data), ['illegal_cycle']);
+  });
+});
+
+describe('validateWorkflow output counts', () => {
+  it('rejects connections from outputs a node does not have', () => {
+    const data = workflow(
+      [node('Trigger', 'n8n-nodes-base.manualTrigger'), node('Check', 'n8n-nodes-base.if'), node('Next')],
+      [
+        ['Trigger', 0, 'Check'],
+        ['Check', 2, 'Next'],
+      ]
+    );
+
+    assert.deepEqual(validateWorkflow(data).errors, ['Node Check has 2 output(s) but output 2 is connected']);
+  });
+
+  it('counts the error output and switch rules', () => {
+    const check = node('Check', 'n8n-nodes-base.if', { onError: 'continueErrorOutput' });
+    const route = node('Route', 'n8n-nodes-base.switch', {
+      typeVersion: 3,
+      parameters: { rules: { values: [{}, {}] }, options: { fallbackOutput: 'extra' } },
+    });
+    const links: Array<[string, number, string]> = [
+      ['Trigger', 0, 'Check'],
+      ['Check', 2, 'Route'],
+      ['Route', 2, 'Next'],
+    ];
+
+    assert.deepEqual(codes(workflow([node('Trigger', 'n8n-nodes-base.manualTrigger'), check, route, node('Next')], links)), []);
+
+    links.push(['Route', 3, 'Next']);
+    assert.deepEqual(codes(workflow([node('Trigger', 'n8n-nodes-base.manualTrigger'), check, route, node('Next')], links)), [
+      'invalid_output_index',
+    ]);
+  });
+
+  it('leaves nodes with unknown outputs alone', () => {
+    const data = workflow(
+      [node('Trigger', 'n8n-nodes-base.manualTrigger'), node('Agent', '@n8n/n8n-nodes-langchain.agent'), node('Next')],
+      [
+        ['Trigger', 0, 'Agent'],
+        ['Agent', 5, 'Next'],
+      ]
+    );
+
+    assert.deepEqual(codes(data), []);
+  });
+});
+
+describe('issueKey', () => {
+  it('stays the same when the node is renamed', () => {
+    const before = workflow([node('Trigger', 'n8n-nodes-base.manualTrigger'), node('A')], [['A', 0, 'A']]);
+    const after = workflow([node('Trigger', 'n8n-nodes-base.manualTrigger'), { ...node('A'), name: 'Renamed' }], [['Renamed', 0, 'Renamed']]);
+
+    const keys = (data: WorkflowData) => validateWorkflow(data).issues.map(issueKey);
+    assert.deepEqual(keys(after), keys(before));
+  });
+});
@@ -0,0 +1,354 @@
+import { analyzeExpressions } from './expressionAnalyzer.js';
+import type { WorkflowData, WorkflowNode } from '../types/index.js';
+
+export type ValidationIssueCode =
+  | 'invalid_nodes'
+  | 'missing_workflow_id'
+  | 'missing_workflow_name'
+  | 'missing_node_name'
+  | 'duplicate_node_name'
+  | 'missing_node_type'
+  | 'missing_type_version'
+  | 'invalid_position'
+  | 'invalid_connections'
+  | 'connection_from_unknown_node'
+  | 'connection_to_unknown_node'
+  | 'invalid_output_index'
+  | 'no_trigger'
+  | 'unreachable_node'
+  | 'illegal_cycle'
+  | 'unknown_node_reference'
+  | 'unterminated_expression';
+
+export interface ValidationIssue {
+  severity: 'error' | 'warning';
+  code: ValidationIssueCode;
+  message: string;
+  // The node the issue is about, when there is one
+  nodeName?: string;
+  // Its id, which survives renames
+  nodeId?: string;
+}
+
+export interface ValidationResult {
+  valid: boolean;
+  // Messages of the error-level issues
+  errors: string[];
+  issues: ValidationIssue[];
+}
+
+// Types that start executions without being triggers by name
+const TRIGGER_TYPES = new Set([
+  'n8n-nodes-base.webhook',
+  'n8n-nodes-base.cron',
+  'n8n-nodes-base.interval',
+  'n8n-nodes-base.start',
+  'n8n-nodes-base.emailReadImap',
+]);
+
+// Nodes that carry no logic and never connect to anything
+const ANNOTATION_TYPES = new Set(['n8n-nodes-base.stickyNote']);
+
+// Nodes built to loop back on themselves until their input is exhausted
+const LOOP_TYPES = new Set(['n8n-nodes-base.splitInBatches']);
+
+export function validateWorkflow(workflow: WorkflowData): ValidationResult {
+  const issues: ValidationIssue[] = [];
+  const nodeIdOf = (nodeName?: string) =>
+    nodeName === undefined || !Array.isArray(workflow.nodes)
+      ? undefined
+      : workflow.nodes.find((node) => node.name === nodeName)?.id;
+  const error = (code: ValidationIssueCode, message: string, nodeName?: string) =>
+    issues.push({ severity: 'error', code, message, nodeName, nodeId: nodeIdOf(nodeName) });
+  const warning = (code: ValidationIssueCode, message: string, nodeName?: string) =>
+    issues.push({ severity: 'warning', code, message, nodeName, nodeId: nodeIdOf(nodeName) });
+
+  // Check required fields
+  if (!workflow.id) {
+    error('missing_workflow_id', 'Workflow ID is missing');
+  }
+
+  if (!workflow.name) {
+    error('missing_workflow_name', 'Workflow name is missing');
+  }
+
+  if (!Array.isArray(workflow.nodes)) {
+    error('invalid_nodes', 'Nodes array is invalid');
+    return toResult(issues);
+  }
+
+  const nodesByName = new Map<string, WorkflowNode>();
+  for (const node of workflow.nodes) {
+    if (!node.name) {
+      error('missing_node_name', 'Node with missing name found');
+      continue;
+    }
+    if (nodesByName.has(node.name)) {
+      error('duplicate_node_name', `Duplicate node name: ${node.name}`, node.name);
+    }
+    nodesByName.set(node.name, node);
+
+    if (!node.type) {
+      error('missing_node_type', `Node ${node.name} is missing type`, node.name);
+    }
+    if (typeof node.typeVersion !== 'number' || !Number.isFinite(node.typeVersion)) {
+      error('missing_type_version', `Node ${node.name} is missing a numeric typeVersion`, node.name);
+    }
+    if (!isValidPosition(node.position)) {
+      error('invalid_position', `Node ${node.name} has an invalid position: ${JSON.stringify(node.position)}`, node.name);
+    }
+  }
+
+  validateConnections(workflow, nodesByName, error);
+
+  const logicNodes = Array.from(nodesByName.values()).filter((n) => !ANNOTATION_TYPES.has(n.type));
+  const triggers = logicNodes.filter(isTriggerNode);
+
+  if (logicNodes.length > 0 && triggers.length === 0) {
+    error('no_trigger', 'Workflow has no trigger node');
+  } else {
+    const reachable = findReachableNodes(workflow, triggers.map((n) => n.name));
+    for (const node of logicNodes) {
+      if (!reachable.has(node.name) && !node.disabled) {
+        warning('unreachable_node', `Node ${node.name} is not connected to any trigger`, node.name);
+      }
+    }
+  }
+
+  for (const cycle of findIllegalCycles(workflow, nodesByName)) {
+    error('illegal_cycle', `Connections form a loop with no exit: ${cycle.join(' -> ')}`, cycle[0]);
+  }
+
+  // Expressions that would fail at runtime, e.g. after a node they read from was renamed or removed
+  for (const finding of analyzeExpressions(workflow)) {
+    if (finding.kind === 'unknown_node') {
+      error('unknown_node_reference', finding.message, finding.nodeName);
+    } else if (finding.kind === 'unterminated') {
+      warning('unterminated_expression', finding.message, finding.nodeName);
+    }
+  }
+
+  return toResult(issues);
+}
+
+// Stable identity for comparing issues across two versions of a workflow. Names and messages change
+// when a fix renames or inserts nodes, so only the code and the node's id are used.
+export function issueKey(issue: ValidationIssue): string {
+  return `${issue.code}:${issue.nodeId ?? issue.nodeName ?? ''}`;
+}
+
+export function isTriggerNode(node: WorkflowNode): boolean {
+  return /trigger$/i.test(node.type) || TRIGGER_TYPES.has(node.type);
+}
+
+function toResult(issues: ValidationIssue[]): ValidationResult {
+  const errors = issues.filter((i) => i.severity === 'error').map((i) => i.message);
+  return { valid: errors.length === 0, errors, issues };
+}
+
+function isValidPosition(position: unknown): boolean {
+  return (
+    Array.isArray(position) &&
+    position.length === 2 &&
+    position.every((coordinate) => typeof coordinate === 'number' && Number.isFinite(coordinate))
+  );
+}
+
+function validateConnections(
+  workflow: WorkflowData,
+  nodesByName: Map<string, WorkflowNode>,
+  error: (code: ValidationIssueCode, message: string, nodeName?: string) => void
+): void {
+  for (const [sourceName, connections] of Object.entries(workflow.connections)) {
+    const source = nodesByName.get(sourceName);
+    if (!source) {
+      error('connection_from_unknown_node', `Connection from non-existent node: ${sourceName}`, sourceName);
+    }
+
+    for (const [connectionType, outputs] of Object.entries(connections)) {
+      if (!Array.isArray(outputs)) {
+        error('invalid_connections', `Invalid ${connectionType} connections on node: ${sourceName}`, sourceName);
+        continue;
+      }
+
+      const outputCount = source && connectionType === 'main' ? getMainOutputCount(source) : undefined;
+
+      outputs.forEach((targets, outputIndex) => {
+        if (!targets || targets.length === 0) return;
+
+        if (outputCount !== undefined && outputIndex >= outputCount) {
+          error(
+            'invalid_output_index',
+            `Node ${sourceName} has ${outputCount} output(s) but output ${outputIndex} is connected`,
+            sourceName
+          );
+        }
+
+        for (const target of targets) {
+          if (!nodesByName.has(target.node)) {
+            error('connection_to_unknown_node', `Connection to non-existent node: ${target.node} (${connectionType})`, sourceName);
+          }
+        }
+      });
+    }
+  }
+}
+
+// Number of main outputs a node has, or undefined when it can't be known without the node's definition
+function getMainOutputCount(node: WorkflowNode): number | undefined {
+  const errorOutput = node.onError === 'continueErrorOutput' ? 1 : 0;
+  const parameters = node.parameters ?? {};
+
+  switch (node.type) {
+    case 'n8n-nodes-base.if':
+      return 2 + errorOutput;
+    case 'n8n-nodes-base.splitInBatches':
+      return (node.typeVersion >= 3 ? 2 : 1) + errorOutput;
+    case 'n8n-nodes-base.compareDatasets':
+      return 4 + errorOutput;
+    case 'n8n-nodes-base.switch': {
+      if (node.typeVersion < 3) return undefined;
+      if (parameters.mode === 'expression') {
+        return typeof parameters.numberOutputs === 'number' ? parameters.numberOutputs + errorOutput : undefined;
+      }
+      const rules = (parameters.rules as { values?: unknown[] } | undefined)?.values;
+      if (!Array.isArray(rules)) return undefined;
+      const fallback = (parameters.options as { fallbackOutput?: unknown } | undefined)?.fallbackOutput === 'extra' ? 1 : 0;
+      return rules.length + fallback + errorOutput;
+    }
+    case 'n8n-nodes-base.filter':
+      // Optionally has a second output for discarded items
+      return undefined;
+  }
+
+  // Other core nodes have a single output; community and LangChain nodes vary too much to say
+  return node.type.startsWith('n8n-nodes-base.') ? 1 + errorOutput : undefined;
+}
+
+// Nodes an execution can reach: anything downstream of a trigger over main connections,
+// plus the sub-nodes (models, tools, memory) attached to a reachable node
+function findReachableNodes(workflow: WorkflowData, triggerNames: string[]): Set<string> {
+  const reachable = new Set<string>();
+  const queue = [...triggerNames];
+
+  const visit = () => {
+    while (queue.length > 0) {
+      const name = queue.shift()!;
+      if (reachable.has(name)) continue;
+      reachable.add(name);
+
+      for (const targets of workflow.connections[name]?.main ?? []) {
+        for (const target of targets ?? []) {
+          if (!reachable.has(target.node)) queue.push(target.node);
+        }
+      }
+    }
+  };
+
+  visit();
+
+  // Sub-nodes point at the node using them, so walk those links backwards until nothing new is found
+  let added = true;
+  while (added) {
+    added = false;
+    for (const [sourceName, connections] of Object.entries(workflow.connections)) {
+      if (reachable.has(sourceName)) continue;
+      const attached = Object.entries(connections).some(
+        ([connectionType, outputs]) =>
+          connectionType !== 'main' && (outputs ?? []).some((targets) => (targets ?? []).some((t) => reachable.has(t.node)))
+      );
+      if (attached) {
+        queue.push(sourceName);
+        visit();
+        added = true;
+      }
+    }
+  }
+
+  return reachable;
+}
+
+// Loops over main connections are legal when they run through a loop node or some node in them
+// can route out of the loop. A loop with neither would run forever.
+function findIllegalCycles(workflow: WorkflowData, nodesByName: Map<string, WorkflowNode>): string[][] {
+  const edges = new Map<string, string[]>();
+  for (const [sourceName, connections] of Object.entries(workflow.connections)) {
+    const targets = (connections.main ?? []).flatMap((outputs) => (outputs ?? []).map((t) => t.node));
+    edges.set(sourceName, targets.filter((t) => nodesByName.has(t)));
+  }
+
+  const illegal: string[][] = [];
+  for (const component of findStronglyConnectedComponents(Array.from(nodesByName.keys()), edges)) {
+    const members = new Set(component);
+    const isCycle = component.length > 1 || (edges.get(component[0]) ?? []).includes(component[0]);
+    if (!isCycle) continue;
+
+    const hasLoopNode = component.some((name) => LOOP_TYPES.has(nodesByName.get(name)!.type));
+    const hasExit = component.some((name) => (edges.get(name) ?? []).some((target) => !members.has(target)));
+    if (!hasLoopNode && !hasExit) {
+      illegal.push(component);
+    }
+  }
+
+  return illegal;
+}
+
+// Tarjan's algorithm, iterative so large workflows can't overflow the stack
+function findStronglyConnectedComponents(nodes: string[], edges: Map<string, string[]>): string[][] {
+  const index = new Map<string, number>();
+  const lowLink = new Map<string, number>();
+  const onStack = new Set<string>();
+  const stack: string[] = [];
+  const components: string[][] = [];
+  let counter = 0;
+
+  for (const root of nodes) {
+    if (index.has(root)) continue;
+
+    const work: Array<{ node: string; next: number }> = [{ node: root, next: 0 }];
+    index.set(root, counter);
+    lowLink.set(root, counter);
+    counter++;
+    stack.push(root);
+    onStack.add(root);
+
+    while (work.length > 0) {
+      const frame = work[work.length - 1];
+      const targets = edges.get(frame.node) ?? [];
+
+      if (frame.next < targets.length) {
+        const target = targets[frame.next++];
+        if (!index.has(target)) {
+          index.set(target, counter);
+          lowLink.set(target, counter);
+          counter++;
+          stack.push(target);
+          onStack.add(target);
+          work.push({ node: target, next: 0 });
+        } else if (onStack.has(target)) {
+          lowLink.set(frame.node, Math.min(lowLink.get(frame.node)!, index.get(target)!));
+        }
+        continue;
+      }
+
+      work.pop();
+      if (work.length > 0) {
+        const parent = work[work.length - 1].node;
+        lowLink.set(parent, Math.min(lowLink.get(parent)!, lowLink.get(frame.node)!));
+      }
+
+      if (lowLink.get(frame.node) === index.get(frame.node)) {
+        const component: string[] = [];
+        let member: string;
+        do {
+          member = stack.pop()!;
+          onStack.delete(member);
+          component.push(member);
+        } while (member !== frame.node);
+        components.push(component.reverse());
+      }
+    }
+  }
+
+  return components;
+}
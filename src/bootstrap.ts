@@ -0,0 +1,114 @@
+import { parseArgs } from 'util';
+import { config, validateEnv } from './utils/config.js';
+import { hasInstance } from './services/instances.js';
+import { installErrorWorkflow, uninstallErrorWorkflow, ERROR_WORKFLOW_NAME } from './services/errorWorkflow.js';
+import type { WorkflowRef } from './services/errorWorkflow.js';
+
+// Installs the error-reporting workflow into n8n, or removes it with --uninstall.
+//   npm run bootstrap -- --tag production --workflow abc123 [--all] [--force] [--instance prod] [--agent-url URL]
+
+const USAGE = `Usage: npm run bootstrap -- [options]
+
+  --all                 Cover every workflow
+  --tag <name>          Cover workflows with this tag (repeatable)
+  --workflow <id>       Cover this workflow (repeatable)
+  --force               Replace error workflows the selected workflows already use
+  --instance <name>     n8n instance (default: default)
+  --agent-url <url>     URL n8n reaches the agent at (default: AGENT_PUBLIC_URL)
+  --uninstall           Detach and delete the error workflow
+  --help                Show this message`;
+
+async function main(): Promise<number> {
+  const { values } = parseArgs({
+    options: {
+      all: { type: 'boolean', default: false },
+      tag: { type: 'string', multiple: true, default: [] },
+      workflow: { type: 'string', multiple: true, default: [] },
+      force: { type: 'boolean', default: false },
+      instance: { type: 'string' },
+      'agent-url': { type: 'string' },
+      uninstall: { type: 'boolean', default: false },
+      help: { type: 'boolean', default: false },
+    },
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    return 0;
+  }
+
+  if (values.instance && !hasInstance(values.instance)) {
+    console.error(`Unknown n8n instance: ${values.instance}`);
+    return 1;
+  }
+
+  if (values.uninstall) {
+    const result = await uninstallErrorWorkflow({ instance: values.instance });
+
+    if (!result.errorWorkflowId) {
+      console.log(`No "${ERROR_WORKFLOW_NAME}" workflow on instance ${result.instance}`);
+      return 0;
+    }
+    for (const workflow of result.cleared) {
+      printRow('detached', workflow);
+    }
+    for (const workflow of result.failed) {
+      printRow('failed', workflow, workflow.error);
+    }
+    console.log(
+      result.removed
+        ? `Deleted error workflow ${result.errorWorkflowId} from instance ${result.instance}`
+        : `Kept error workflow ${result.errorWorkflowId}, ${result.failed.length} workflow(s) could not be detached`
+    );
+    return result.removed ? 0 : 1;
+  }
+
+  // The installed workflow authenticates with the agent's token; nothing else of the server's config is needed
+  validateEnv(['API_BEARER_TOKEN']);
+
+  const agentUrl = values['agent-url'] ?? config.agentPublicUrl;
+  if (!agentUrl) {
+    console.error('Set AGENT_PUBLIC_URL or pass --agent-url\n');
+    console.error(USAGE);
+    return 1;
+  }
+  if (!values.all && values.tag.length === 0 && values.workflow.length === 0) {
+    console.error('Select workflows with --all, --tag or --workflow\n');
+    console.error(USAGE);
+    return 1;
+  }
+
+  const result = await installErrorWorkflow({
+    instance: values.instance,
+    selection: { all: values.all, tags: values.tag, workflowIds: values.workflow },
+    agentUrl,
+    force: values.force,
+  });
+
+  console.log(
+    `${result.created ? 'Created' : 'Updated'} error workflow ${result.errorWorkflowId} on instance ${result.instance}, reporting to ${agentUrl.replace(/\/$/, '')}/debug`
+  );
+  for (const workflow of result.covered) {
+    printRow(workflow.updated ? 'covered' : 'unchanged', workflow);
+  }
+  for (const workflow of result.skipped) {
+    printRow('skipped', workflow, workflow.reason);
+  }
+  for (const workflow of result.failed) {
+    printRow('failed', workflow, workflow.error);
+  }
+  console.log(`${result.covered.length} covered, ${result.skipped.length} skipped, ${result.failed.length} failed`);
+
+  return result.failed.length === 0 ? 0 : 1;
+}
+
+function printRow(label: string, workflow: WorkflowRef, detail?: string): void {
+  console.log(`  ${label.padEnd(10)} ${workflow.id}  ${workflow.name}${detail ? `: ${detail}` : ''}`);
+}
+
+main()
+  .then((code) => process.exit(code))
+  .catch((error: Error) => {
+    console.error(`Bootstrap failed: ${error.message}`);
+    process.exit(1);
+  });
@@ -1,3 +1,4 @@
+import './utils/serverEnv.js';
 import express, { Request, Response, NextFunction } from 'express';
 import { v4 as uuidv4 } from 'uuid';
 import { config } from './utils/config.js';
@@ -5,6 +6,9 @@ import { logger, requestLoggerMiddleware } from './utils/logger.js';
 import { debugRouter } from './routes/debug.js';
 import { slackRouter } from './routes/slack.js';
 import { approvalStore } from './services/approvalStore.js';
+import { auditLog } from './services/auditLog.js';
+import { getN8nClient, listInstances } from './services/instances.js';
+import { executionPoller } from './services/executionPoller.js';
 import { bearerAuth } from './middleware/auth.js';
 
 const app = express();
@@ -44,12 +48,16 @@ app.use((req: Request & { requestId?: string }, res: Response, next: NextFunctio
   next();
 });
 
-// Health check endpoint
+// Health check endpoint. An open circuit means calls to that n8n instance currently fail fast.
 app.get('/health', (_req: Request, res: Response) => {
+  const n8n = Object.fromEntries(listInstances().map((instance) => [instance.name, getN8nClient(instance.name).getCircuitStatus()]));
+  const degraded = Object.values(n8n).some((circuit) => circuit.state !== 'closed');
+
   res.json({
-    status: 'healthy',
+    status: degraded ? 'degraded' : 'healthy',
     timestamp: new Date().toISOString(),
     version: process.env.npm_package_version || '1.0.0',
+    n8n,
   });
 });
 
@@ -87,6 +95,8 @@ const server = app.listen(config.port, () => {
     port: config.port,
     environment: config.nodeEnv,
   });
+
+  executionPoller.start();
 });
 
 // Graceful shutdown
@@ -97,7 +107,9 @@ function shutdown(signal: string): void {
     logger.info('HTTP server closed');
 
     // Cleanup
+    executionPoller.stop();
     approvalStore.destroy();
+    auditLog.destroy();
 
     logger.info('Cleanup complete, exiting');
     process.exit(0);
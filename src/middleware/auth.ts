@@ -1,6 +1,22 @@
 import { Request, Response, NextFunction } from 'express';
+import crypto from 'crypto';
 import { config } from '../utils/config.js';
 import { logger } from '../utils/logger.js';
+import type { AuditActor } from '../types/index.js';
+
+export interface AuthenticatedRequest extends Request {
+  actor?: AuditActor;
+}
+
+// Identify an API caller by a hash of its token, so the audit log never holds the token itself
+export function getTokenActor(token: string): AuditActor {
+  const tokenHash = crypto.createHash('sha256').update(token).digest('hex').slice(0, 12);
+  return { id: `api:${tokenHash}`, name: `API token ${tokenHash}` };
+}
+
+export function getApiActor(req: Request): AuditActor {
+  return (req as AuthenticatedRequest).actor ?? { id: 'api:unknown', name: 'API' };
+}
 
 export function bearerAuth(req: Request, res: Response, next: NextFunction): void {
   const authHeader = req.headers.authorization;
@@ -37,5 +53,6 @@ export function bearerAuth(req: Request, res: Response, next: NextFunction): voi
     return;
   }
 
+  (req as AuthenticatedRequest).actor = getTokenActor(token);
   next();
 }
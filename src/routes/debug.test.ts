@@ -0,0 +1,58 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import express from 'express';
+import { debugRouter } from './debug.js';
+import { approvalStore } from '../services/approvalStore.js';
+import { auditLog, SYSTEM_ACTOR } from '../services/auditLog.js';
+
+describe('GET /debug/audit', () => {
+  let server: Server;
+  let baseUrl: string;
+
+  before(async () => {
+    const app = express();
+    app.use('/debug', debugRouter);
+    server = app.listen(0, '127.0.0.1');
+    await new Promise((resolve) => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/debug/audit`;
+
+    auditLog.record({ type: 'created', approvalId: 'a1', workflowId: 'wf1', actor: SYSTEM_ACTOR });
+    auditLog.record({ type: 'created', approvalId: 'a2', workflowId: 'wf2', actor: SYSTEM_ACTOR });
+  });
+
+  after(() => {
+    server.close();
+    approvalStore.destroy();
+    auditLog.destroy();
+  });
+
+  async function get(query: string): Promise<{ status: number; body: Record<string, unknown> }> {
+    const response = await fetch(`${baseUrl}${query}`);
+    return { status: response.status, body: (await response.json()) as Record<string, unknown> };
+  }
+
+  it('filters events by the query', async () => {
+    const { status, body } = await get('?workflowId=wf1&limit=10');
+
+    assert.equal(status, 200);
+    assert.equal(body.count, 1);
+  });
+
+  it('rejects repeated and nested parameters', async () => {
+    const repeated = await get('?workflowId=wf1&workflowId=wf2');
+    assert.equal(repeated.status, 400);
+    assert.equal(repeated.body.error, 'Invalid query');
+    assert.match(String(repeated.body.message), /^workflowId must/);
+
+    const nested = await get('?actor[id]=U1&limit=5');
+    assert.equal(nested.status, 400);
+    assert.match(String(nested.body.message), /^actor must/);
+  });
+
+  it('rejects invalid dates and limits', async () => {
+    assert.equal((await get('?from=yesterday')).body.error, 'Invalid date');
+    assert.equal((await get('?limit=0')).body.error, 'Invalid limit');
+  });
+});
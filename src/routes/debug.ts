@@ -1,14 +1,19 @@
 import { Router, Request, Response } from 'express';
 import { v4 as uuidv4 } from 'uuid';
 import { logger, createRequestLogger } from '../utils/logger.js';
-import { n8nClient } from '../services/n8n.js';
-import { claudeClient } from '../services/claude.js';
-import { skillsService } from '../services/skills.js';
-import { mcpService } from '../services/mcp.js';
-import { slackClient } from '../services/slack.js';
+import { getN8nClient, hasInstance } from '../services/instances.js';
 import { approvalStore } from '../services/approvalStore.js';
-import { parseError } from '../analyzers/errorParser.js';
-import type { ErrorPayload, DebugResult } from '../types/index.js';
+import { rollbackFix } from '../services/rollback.js';
+import { auditLog } from '../services/auditLog.js';
+import { runDebugPipeline } from '../services/debugPipeline.js';
+import { installErrorWorkflow, uninstallErrorWorkflow } from '../services/errorWorkflow.js';
+import { config } from '../utils/config.js';
+import { CircuitOpenError } from '../utils/circuitBreaker.js';
+import { getApiActor } from '../middleware/auth.js';
+import { applyFix, getCredentialChanges } from '../analyzers/fixGenerator.js';
+import { detectDrift } from '../analyzers/driftDetector.js';
+import { diffWorkflows } from '../analyzers/workflowDiff.js';
+import type { ErrorPayload, DebugResult, ApprovalRecord, WorkflowData, CredentialSummary } from '../types/index.js';
 
 export const debugRouter = Router();
 
@@ -26,126 +31,19 @@ debugRouter.post('/', async (req: DebugRequest, res: Response<DebugResult>) => {
     errorMessage: req.body.errorMessage?.slice(0, 100),
   });
 
-  try {
-    // Validate payload
-    const validation = validatePayload(req.body);
-    if (!validation.valid) {
-      log.warn('Invalid payload', { errors: validation.errors });
-      return res.status(400).json({
-        success: false,
-        error: `Invalid payload: ${validation.errors.join(', ')}`,
-        message: 'Request validation failed',
-      });
-    }
-
-    const payload = req.body;
-
-    // Fetch workflow from n8n
-    log.info('Fetching workflow', { workflowId: payload.workflowId });
-    let workflow;
-    try {
-      workflow = await n8nClient.getWorkflow(payload.workflowId);
-    } catch (error) {
-      log.error('Failed to fetch workflow', { error: (error as Error).message });
-      return res.status(404).json({
-        success: false,
-        error: `Workflow not found: ${payload.workflowId}`,
-        message: 'Could not retrieve workflow from n8n',
-      });
-    }
-
-    // Parse the error to understand its nature
-    const parsedError = parseError(payload, workflow);
-    log.info('Error parsed', {
-      category: parsedError.category,
-      severity: parsedError.severity,
-    });
-
-    // Fetch relevant skills based on error context
-    log.info('Fetching relevant skills');
-    const allSkills = await skillsService.fetchSkills();
-    const relevantSkills = skillsService.filterSkillsForError(
-      allSkills,
-      parsedError.nodeType,
-      payload.errorMessage
-    );
-    log.debug('Skills filtered', { count: relevantSkills.length });
-
-    // Fetch node documentation from MCP (if available)
-    let nodeDocumentation: string | undefined;
-    if (parsedError.nodeType) {
-      log.info('Fetching node documentation from MCP', { nodeType: parsedError.nodeType });
-      const mcpDoc = await mcpService.getNodeDocumentation(parsedError.nodeType);
-      if (mcpDoc?.documentation) {
-        nodeDocumentation = mcpDoc.documentation;
-        log.debug('MCP documentation fetched', { nodeType: parsedError.nodeType, docLength: nodeDocumentation.length });
-      }
-    }
-
-    // Analyze error with Claude
-    log.info('Analyzing error with Claude');
-    const analysis = await claudeClient.analyzeError({
-      errorPayload: payload,
-      workflow,
-      skills: relevantSkills,
-      nodeDocumentation,
-    });
-
-    log.info('Analysis complete', {
-      confidence: analysis.confidence,
-      affectedNodes: analysis.affectedNodes,
-      changesCount: analysis.suggestedFix.changes.length,
-    });
-
-    // Create approval record
-    const approvalId = uuidv4();
-    const approvalRecord = approvalStore.create({
-      id: approvalId,
-      workflowId: payload.workflowId,
-      workflowName: workflow.name,
-      executionId: payload.executionId,
-      errorPayload: payload,
-      analysis,
-      proposal: analysis.suggestedFix,
-      originalWorkflow: workflow,
-      skills: relevantSkills,
-      nodeDocumentation,
-    });
-
-    // Send to Slack for approval
-    log.info('Sending approval request to Slack');
-    try {
-      const slackMessage = await slackClient.sendProposal(approvalRecord);
-      if (slackMessage) {
-        approvalStore.update(approvalId, {
-          slackMessageTs: slackMessage.ts,
-          slackChannelId: slackMessage.channel,
-        });
-      } else {
-        log.warn('Slack not configured, approval stored but no notification sent');
-      }
-    } catch (slackError) {
-      log.error('Failed to send Slack message', { error: (slackError as Error).message });
-      // Continue anyway - the fix is still in the approval store
-    }
-
-    log.info('Debug flow complete', { approvalId });
-
-    return res.json({
-      success: true,
-      approvalId,
-      analysis,
-      message: 'Error analyzed and fix proposed. Awaiting approval in Slack.',
-    });
-  } catch (error) {
-    log.error('Debug flow failed', { error: (error as Error).message, stack: (error as Error).stack });
-
-    return res.status(500).json({
+  // Validate payload
+  const validation = validatePayload(req.body);
+  if (!validation.valid) {
+    log.warn('Invalid payload', { errors: validation.errors });
+    return res.status(400).json({
       success: false,
-      error: (error as Error).message,
-      message: 'An error occurred while processing the debug request',
+      error: `Invalid payload: ${validation.errors.join(', ')}`,
+      message: 'Request validation failed',
     });
   }
+
+  const { statusCode, result } = await runDebugPipeline(req.body, log, getApiActor(req));
+  return res.status(statusCode).json(result);
 });
 
 // Get status of an approval
@@ -165,6 +63,7 @@ debugRouter.get('/approval/:id', (req: Request, res: Response) => {
     success: true,
     approval: {
       id: record.id,
+      instance: record.instance,
       workflowId: record.workflowId,
       workflowName: record.workflowName,
       status: record.status,
@@ -175,6 +74,99 @@ debugRouter.get('/approval/:id', (req: Request, res: Response) => {
   });
 });
 
+// Roll back an applied fix to the workflow snapshot taken before it was applied
+debugRouter.post('/approval/:id/rollback', async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const record = approvalStore.get(id);
+
+  if (!record) {
+    return res.status(404).json({
+      success: false,
+      error: 'Approval not found',
+      message: `No approval record found with ID: ${id}`,
+    });
+  }
+
+  const result = await rollbackFix(id, getApiActor(req));
+
+  if (!result.success) {
+    return res.status(record.status === 'applied' && !result.drift ? 502 : 409).json({
+      success: false,
+      error: result.error,
+      message: 'Rollback could not be performed',
+    });
+  }
+
+  return res.json({
+    success: true,
+    approval: {
+      id: result.record!.id,
+      workflowId: result.record!.workflowId,
+      status: result.record!.status,
+      rolledBackAt: result.record!.rolledBackAt,
+    },
+    message: 'Workflow restored to its pre-fix state',
+  });
+});
+
+// Dry-run the proposed fix against the analysis snapshot and the live workflow.
+// Nothing is written to n8n.
+debugRouter.post('/approval/:id/preview', async (req: Request, res: Response) => {
+  const { id } = req.params;
+  const record = approvalStore.get(id);
+
+  if (!record) {
+    return res.status(404).json({
+      success: false,
+      error: 'Approval not found',
+      message: `No approval record found with ID: ${id}`,
+    });
+  }
+
+  if (record.instance && !hasInstance(record.instance)) {
+    return res.status(409).json({
+      success: false,
+      error: `Unknown n8n instance: ${record.instance}`,
+      message: 'The instance this approval belongs to is no longer configured',
+    });
+  }
+  const n8nClient = getN8nClient(record.instance);
+
+  let credentials: CredentialSummary[] | undefined;
+  if (getCredentialChanges(record.analysis.suggestedFix).length > 0) {
+    try {
+      credentials = await n8nClient.listCredentials();
+    } catch (error) {
+      logger.warn('Could not list credentials for preview', { approvalId: id, error: (error as Error).message });
+    }
+  }
+
+  const original = buildPreview(record.originalWorkflow, record, credentials);
+
+  let live;
+  try {
+    const currentWorkflow = await n8nClient.getWorkflow(record.workflowId);
+    live = {
+      ...buildPreview(currentWorkflow, record, credentials),
+      drift: detectDrift(record.originalWorkflow, currentWorkflow, record.analysis.suggestedFix),
+    };
+  } catch (error) {
+    logger.warn('Could not fetch live workflow for preview', { approvalId: id, error: (error as Error).message });
+    live = { error: `Could not fetch live workflow: ${(error as Error).message}` };
+  }
+
+  return res.json({
+    success: true,
+    approvalId: record.id,
+    workflowId: record.workflowId,
+    status: record.status,
+    preview: {
+      original,
+      live,
+    },
+  });
+});
+
 // List pending approvals
 debugRouter.get('/approvals', (_req: Request, res: Response) => {
   const pending = approvalStore.getPending();
@@ -183,6 +175,7 @@ debugRouter.get('/approvals', (_req: Request, res: Response) => {
     success: true,
     approvals: pending.map((r) => ({
       id: r.id,
+      instance: r.instance,
       workflowId: r.workflowId,
       workflowName: r.workflowName,
       status: r.status,
@@ -192,6 +185,153 @@ debugRouter.get('/approvals', (_req: Request, res: Response) => {
   });
 });
 
+// Query the approval audit trail, as JSON or as a JSONL export
+debugRouter.get('/audit', (req: Request, res: Response) => {
+  // A repeated parameter arrives as an array, which the storage query can't bind
+  const invalid = Object.entries(req.query).filter(([, value]) => typeof value !== 'string').map(([name]) => name);
+  if (invalid.length > 0) {
+    return res.status(400).json({
+      success: false,
+      error: 'Invalid query',
+      message: `${invalid.join(', ')} must each be a single value`,
+    });
+  }
+
+  const { workflowId, actor, from, to, limit, format } = req.query as Record<string, string | undefined>;
+
+  const fromDate = from ? new Date(from) : undefined;
+  const toDate = to ? new Date(to) : undefined;
+  const limitNumber = limit ? parseInt(limit, 10) : undefined;
+
+  if ((fromDate && isNaN(fromDate.getTime())) || (toDate && isNaN(toDate.getTime()))) {
+    return res.status(400).json({
+      success: false,
+      error: 'Invalid date',
+      message: 'from and to must be ISO 8601 timestamps',
+    });
+  }
+
+  if (limitNumber !== undefined && (isNaN(limitNumber) || limitNumber < 1)) {
+    return res.status(400).json({
+      success: false,
+      error: 'Invalid limit',
+      message: 'limit must be a positive integer',
+    });
+  }
+
+  const events = auditLog.query({
+    workflowId,
+    actor,
+    from: fromDate,
+    to: toDate,
+    limit: limitNumber,
+  });
+
+  if (format === 'jsonl') {
+    res.setHeader('Content-Type', 'application/x-ndjson');
+    res.setHeader('Content-Disposition', `attachment; filename="audit-${new Date().toISOString()}.jsonl"`);
+    return res.send(events.map((e) => JSON.stringify(e)).join('\n') + (events.length > 0 ? '\n' : ''));
+  }
+
+  return res.json({
+    success: true,
+    count: events.length,
+    events,
+  });
+});
+
+// Install the error workflow that reports failures to this agent and attach it to the selected workflows
+debugRouter.post('/error-workflow', async (req: Request, res: Response) => {
+  const validation = validateInstallRequest(req.body);
+  if (!validation.valid) {
+    return res.status(400).json({
+      success: false,
+      error: `Invalid request: ${validation.errors.join(', ')}`,
+      message: 'Request validation failed',
+    });
+  }
+
+  const { instance, all, tags, workflowIds, force, agentUrl } = req.body as Record<string, unknown>;
+
+  try {
+    const result = await installErrorWorkflow({
+      instance: instance as string | undefined,
+      selection: {
+        all: all === true,
+        tags: tags as string[] | undefined,
+        workflowIds: workflowIds as string[] | undefined,
+      },
+      agentUrl: (agentUrl as string | undefined) ?? config.agentPublicUrl!,
+      force: force === true,
+    });
+
+    return res.json({
+      success: result.failed.length === 0,
+      ...result,
+      message: `${result.covered.length} workflow(s) report errors to the agent`,
+    });
+  } catch (error) {
+    logger.error('Error workflow install failed', { error: (error as Error).message });
+    return res.status(error instanceof CircuitOpenError ? 503 : 502).json({
+      success: false,
+      error: (error as Error).message,
+      message: 'Error workflow could not be installed',
+    });
+  }
+});
+
+// Detach the error workflow from every workflow and delete it
+debugRouter.delete('/error-workflow', async (req: Request, res: Response) => {
+  const instance = req.query.instance as string | undefined;
+
+  if (instance !== undefined && !hasInstance(instance)) {
+    return res.status(400).json({
+      success: false,
+      error: 'instance must be the name of a configured n8n instance',
+      message: 'Request validation failed',
+    });
+  }
+
+  try {
+    const result = await uninstallErrorWorkflow({ instance });
+
+    return res.json({
+      success: result.failed.length === 0,
+      ...result,
+      message: result.removed
+        ? `Error workflow removed from ${result.cleared.length} workflow(s) and deleted`
+        : result.errorWorkflowId
+          ? 'Error workflow kept, some workflows could not be detached'
+          : 'No error workflow installed',
+    });
+  } catch (error) {
+    logger.error('Error workflow uninstall failed', { error: (error as Error).message });
+    return res.status(error instanceof CircuitOpenError ? 503 : 502).json({
+      success: false,
+      error: (error as Error).message,
+      message: 'Error workflow could not be uninstalled',
+    });
+  }
+});
+
+function buildPreview(base: WorkflowData, record: ApprovalRecord, credentials?: CredentialSummary[]) {
+  const patchResult = applyFix(base, record.analysis, { credentials });
+
+  return {
+    success: patchResult.success,
+    mode: patchResult.mode,
+    error: patchResult.error,
+    appliedChanges: patchResult.appliedChanges,
+    skippedChanges: patchResult.skippedChanges,
+    rolledBackChanges: patchResult.rolledBackChanges,
+    conflicts: patchResult.conflicts,
+    validationErrors: patchResult.validationErrors,
+    validationIssues: patchResult.validationIssues,
+    patchedWorkflow: patchResult.patchedWorkflow ?? null,
+    diff: patchResult.patchedWorkflow ? diffWorkflows(base, patchResult.patchedWorkflow) : null,
+  };
+}
+
 interface ValidationResult {
   valid: boolean;
   errors: string[];
@@ -214,6 +354,51 @@ function validatePayload(payload: unknown): ValidationResult {
     errors.push('errorMessage is required and must be a string');
   }
 
+  if (p.instance !== undefined && (typeof p.instance !== 'string' || !hasInstance(p.instance))) {
+    errors.push('instance must be the name of a configured n8n instance');
+  }
+
+  return {
+    valid: errors.length === 0,
+    errors,
+  };
+}
+
+function validateInstallRequest(body: unknown): ValidationResult {
+  const errors: string[] = [];
+
+  if (!body || typeof body !== 'object') {
+    return { valid: false, errors: ['Body must be an object'] };
+  }
+
+  const b = body as Record<string, unknown>;
+  const isStringArray = (value: unknown) => Array.isArray(value) && value.every((v) => typeof v === 'string' && v);
+
+  if (b.all !== undefined && typeof b.all !== 'boolean') {
+    errors.push('all must be a boolean');
+  }
+  if (b.tags !== undefined && !isStringArray(b.tags)) {
+    errors.push('tags must be an array of tag names');
+  }
+  if (b.workflowIds !== undefined && !isStringArray(b.workflowIds)) {
+    errors.push('workflowIds must be an array of workflow ids');
+  }
+  if (b.all !== true && !(b.tags as unknown[] | undefined)?.length && !(b.workflowIds as unknown[] | undefined)?.length) {
+    errors.push('select workflows with all, tags or workflowIds');
+  }
+
+  if (b.force !== undefined && typeof b.force !== 'boolean') {
+    errors.push('force must be a boolean');
+  }
+
+  if (b.instance !== undefined && (typeof b.instance !== 'string' || !hasInstance(b.instance))) {
+    errors.push('instance must be the name of a configured n8n instance');
+  }
+
+  if (b.agentUrl !== undefined ? typeof b.agentUrl !== 'string' || !/^https?:\/\//.test(b.agentUrl) : !config.agentPublicUrl) {
+    errors.push('agentUrl must be an http(s) URL, it is required when AGENT_PUBLIC_URL is not set');
+  }
+
   return {
     valid: errors.length === 0,
     errors,
@@ -4,12 +4,33 @@ import { config } from '../utils/config.js';
 import { logger } from '../utils/logger.js';
 import { approvalStore } from '../services/approvalStore.js';
 import { slackClient } from '../services/slack.js';
-import { n8nClient } from '../services/n8n.js';
+import { getN8nClient } from '../services/instances.js';
 import { claudeClient } from '../services/claude.js';
-import { applyFix, generatePatchDescription } from '../analyzers/fixGenerator.js';
+import { rollbackFix } from '../services/rollback.js';
+import { runDebugPipeline } from '../services/debugPipeline.js';
+import { auditLog, summarizeN8nResponse } from '../services/auditLog.js';
+import { resolvePolicy } from '../services/approvalPolicy.js';
+import { sandboxVerifier } from '../services/sandbox.js';
+import { applyFix, generatePatchDescription, getCredentialChanges } from '../analyzers/fixGenerator.js';
+import { detectDrift } from '../analyzers/driftDetector.js';
+import type { AuditActor } from '../types/index.js';
 
 export const slackRouter = Router();
 
+// Expired approvals lose their buttons and get a Re-analyze option in the thread
+approvalStore.onExpired(async (record) => {
+  if (!record.slackChannelId || !record.slackMessageTs) return;
+
+  await slackClient.refreshProposal(record);
+  await slackClient.updateMessage(
+    record.slackChannelId,
+    record.slackMessageTs,
+    'expired',
+    'No decision was made in time, so this fix can no longer be applied. Re-analyze to get a fresh proposal for the current workflow.',
+    record.id
+  );
+});
+
 interface SlackActionPayload {
   type: string;
   trigger_id: string;
@@ -135,6 +156,17 @@ async function processAction(payload: SlackActionPayload): Promise<void> {
     return;
   }
 
+  // Rollback applies to fixes that are already applied, so it skips the pending check
+  if (actionId === 'rollback_fix') {
+    await handleRollback(record.id, payload);
+    return;
+  }
+
+  if (actionId === 'reanalyze_fix') {
+    await handleReanalyze(record.id, payload);
+    return;
+  }
+
   if (record.status !== 'pending') {
     logger.warn('Approval already processed', { approvalId, status: record.status });
     await respondToSlack(payload, `This approval has already been ${record.status}`);
@@ -275,12 +307,45 @@ async function processProposalRequest(payload: SlackViewSubmissionPayload): Prom
       conversationHistory: record.conversationHistory,
     });
 
+    // The previous sandbox result says nothing about the revised fix
+    let credentials;
+    if (getCredentialChanges(revisedAnalysis.suggestedFix).length > 0) {
+      credentials = await getN8nClient(record.instance)
+        .listCredentials()
+        .catch((error) => {
+          logger.warn('Could not list credentials for sandbox run', { approvalId, error: (error as Error).message });
+          return undefined;
+        });
+    }
+    const verification = await sandboxVerifier.verify({
+      workflow: record.originalWorkflow,
+      analysis: revisedAnalysis,
+      errorPayload: record.errorPayload,
+      credentials,
+    });
+
     // Update the approval record with the revised analysis
     // Clear conversation history since we're starting fresh with a new proposal
-    approvalStore.update(approvalId, {
+    // Approvals were given for the previous proposal, so collection starts over
+    const revisedRecord = approvalStore.update(approvalId, {
       analysis: revisedAnalysis,
       proposal: revisedAnalysis.suggestedFix,
+      verification,
       conversationHistory: [],
+      approvals: [],
+      requiredApprovals: resolvePolicy({ ...record, analysis: revisedAnalysis }).requiredApprovals,
+    });
+    if (revisedRecord) {
+      await slackClient.refreshProposal(revisedRecord);
+    }
+
+    auditLog.record({
+      type: 'revised',
+      approvalId,
+      workflowId: record.workflowId,
+      actor: slackActor(payload.user),
+      changes: revisedAnalysis.suggestedFix.changes,
+      details: userRequest,
     });
 
     // Post the revised proposal to the thread
@@ -290,7 +355,8 @@ async function processProposalRequest(payload: SlackViewSubmissionPayload): Prom
       approvalId,
       userRequest,
       revisedAnalysis.explanation,
-      revisedAnalysis.suggestedFix.changes.map((c, i) => `${i + 1}. [${c.changeType}] ${c.description}`).join('\n')
+      revisedAnalysis.suggestedFix.changes,
+      record.originalWorkflow
     );
 
     logger.info('Revised proposal posted from conversation', {
@@ -311,40 +377,190 @@ async function processProposalRequest(payload: SlackViewSubmissionPayload): Prom
 }
 
 async function handleApproval(approvalId: string, payload: SlackActionPayload): Promise<void> {
-  const record = approvalStore.get(approvalId);
-  if (!record) return;
+  const initialRecord = approvalStore.get(approvalId);
+  if (!initialRecord) return;
+
+  const actor = slackActor(payload.user);
+  const policy = resolvePolicy(initialRecord);
+
+  // Policies can restrict who may approve
+  for (const userGroupId of policy.requiredUserGroups) {
+    const members = await slackClient.getUserGroupMembers(userGroupId);
+    if (!members.includes(payload.user.id)) {
+      logger.warn('Approver not in required user group', { approvalId, user: payload.user.username, userGroupId });
+      await respondToSlack(
+        payload,
+        `Only members of <!subteam^${userGroupId}> can approve this fix (policy: ${policy.matchedPolicies.join(', ')})`
+      );
+      return;
+    }
+  }
+
+  // Re-read after the async membership check so concurrent approvals are not lost
+  const currentRecord = approvalStore.get(approvalId);
+  if (!currentRecord || currentRecord.status !== 'pending') return;
+
+  const previousApprovals = currentRecord.approvals ?? [];
+  const alreadyApproved = previousApprovals.some((vote) => vote.userId === payload.user.id);
+
+  // An approver clicking again only makes sense to retry a fully approved fix that failed to apply
+  if (alreadyApproved && previousApprovals.length < policy.requiredApprovals) {
+    await respondToSlack(
+      payload,
+      `You already approved this fix. It needs ${policy.requiredApprovals - previousApprovals.length} more approval(s) from someone else.`
+    );
+    return;
+  }
+
+  const approvals = alreadyApproved
+    ? previousApprovals
+    : [...previousApprovals, { userId: payload.user.id, username: payload.user.username, approvedAt: new Date() }];
+  const quorumReached = approvals.length >= policy.requiredApprovals;
+
+  const record = approvalStore.update(approvalId, {
+    approvals,
+    requiredApprovals: policy.requiredApprovals,
+    ...(quorumReached ? { status: 'approved' as const } : {}),
+  })!;
 
   logger.info('Approval granted', {
     approvalId,
     workflowId: record.workflowId,
     user: payload.user.username,
+    approvals: approvals.length,
+    requiredApprovals: policy.requiredApprovals,
   });
 
-  // Update status to approved
-  approvalStore.updateStatus(approvalId, 'approved');
+  auditLog.record({
+    type: 'approved',
+    approvalId,
+    workflowId: record.workflowId,
+    actor,
+    changes: record.analysis.suggestedFix.changes,
+    details: `${approvals.length} of ${policy.requiredApprovals} approvals${
+      policy.matchedPolicies.length > 0 ? ` (policies: ${policy.matchedPolicies.join(', ')})` : ''
+    }`,
+  });
+
+  if (!quorumReached) {
+    await slackClient.refreshProposal(record);
+    await slackClient.updateMessage(
+      record.slackChannelId!,
+      record.slackMessageTs!,
+      'partially_approved',
+      `Approved by @${payload.user.username} - ${approvals.length} of ${policy.requiredApprovals} approvals, waiting for ${
+        policy.requiredApprovals - approvals.length
+      } more`
+    );
+    return;
+  }
 
   // Notify Slack that we're applying the fix
   await slackClient.updateMessage(
     record.slackChannelId!,
     record.slackMessageTs!,
     'approved',
-    `Approved by @${payload.user.username}`
+    `Approved by ${approvals.map((vote) => `@${vote.username}`).join(', ')}`
   );
 
   try {
-    // Apply the fix
-    const patchResult = applyFix(record.originalWorkflow, record.analysis);
+    const n8nClient = getN8nClient(record.instance);
+
+    // Someone may have edited the workflow while the approval was pending
+    const currentWorkflow = await n8nClient.getWorkflow(record.workflowId);
+    const drift = detectDrift(record.originalWorkflow, currentWorkflow, record.analysis.suggestedFix);
+
+    if (drift.conflicts.length > 0) {
+      logger.warn('Fix blocked by workflow drift', {
+        approvalId,
+        conflicts: drift.conflicts,
+      });
+
+      approvalStore.update(approvalId, { status: 'pending' });
+      auditLog.record({
+        type: 'failed',
+        approvalId,
+        workflowId: record.workflowId,
+        actor,
+        details: `Blocked by workflow drift: ${drift.conflicts.map((c) => `${c.nodeName} (${c.reason})`).join(', ')}`,
+      });
+
+      await slackClient.updateMessage(
+        record.slackChannelId!,
+        record.slackMessageTs!,
+        'failed',
+        `The workflow was edited in n8n after this fix was proposed. These nodes changed and are touched by the fix:\n${drift.conflicts
+          .map((c) => `• *${c.nodeName}*: ${c.reason}`)
+          .join('\n')}\n\nThe fix was not applied. Request a new proposal to analyze the current version.`
+      );
+      return;
+    }
+
+    // Credential reassignments are checked against what n8n lists right now
+    const credentialChanges = getCredentialChanges(record.analysis.suggestedFix);
+    const credentials = credentialChanges.length > 0 ? await n8nClient.listCredentials() : undefined;
+
+    // Rebase: apply the fix on the live version so unrelated edits are kept
+    const patchResult = applyFix(currentWorkflow, record.analysis, { credentials });
+
+    if (patchResult.conflicts.length > 0) {
+      logger.warn('Fix is stale', { approvalId, conflicts: patchResult.conflicts.length });
+
+      approvalStore.update(approvalId, { status: 'pending' });
+      auditLog.record({
+        type: 'failed',
+        approvalId,
+        workflowId: record.workflowId,
+        actor,
+        details: `Stale fix: ${patchResult.conflicts
+          .map((c) => `${c.nodeName ?? 'settings'} ${c.path ?? ''} expected ${JSON.stringify(c.expected)}, found ${JSON.stringify(c.actual)}`)
+          .join('; ')}`,
+      });
+
+      await slackClient.updateMessage(
+        record.slackChannelId!,
+        record.slackMessageTs!,
+        'failed',
+        `This fix is stale. These values changed in n8n since it was proposed:\n${patchResult.conflicts
+          .map(
+            (c) =>
+              `• *${c.nodeName ?? 'Workflow settings'}*${c.path ? ` \`${c.path}\`` : ''}: expected \`${formatConflictValue(
+                c.expected
+              )}\`, found \`${formatConflictValue(c.actual)}\``
+          )
+          .join('\n')}\n\nThe fix was not applied. Request a new proposal to analyze the current version.`
+      );
+      return;
+    }
 
     if (!patchResult.success) {
       throw new Error(patchResult.error || 'Failed to generate patch');
     }
 
     // Update the workflow in n8n (send full workflow for PUT)
-    // Pass original workflow to preserve credentials
-    await n8nClient.updateWorkflow(record.workflowId, patchResult.patchedWorkflow!, record.originalWorkflow);
+    // Pass the live workflow to preserve credentials on every node not reassigned by the fix
+    const n8nResponse = await n8nClient.updateWorkflow(
+      record.workflowId,
+      patchResult.patchedWorkflow!,
+      currentWorkflow,
+      credentialChanges
+    );
 
-    // Update status to applied
-    approvalStore.updateStatus(approvalId, 'applied');
+    // Update status to applied, remembering what the fix was applied on for rollback
+    approvalStore.update(approvalId, { status: 'applied', preApplyWorkflow: currentWorkflow, appliedWorkflow: n8nResponse });
+    auditLog.record({
+      type: 'applied',
+      approvalId,
+      workflowId: record.workflowId,
+      actor,
+      changes: record.analysis.suggestedFix.changes,
+      n8nResponse: summarizeN8nResponse(n8nResponse),
+      details: [
+        `Mode: ${patchResult.mode}`,
+        ...(patchResult.skippedChanges.length > 0 ? [`Skipped: ${patchResult.skippedChanges.join('; ')}`] : []),
+        ...(patchResult.rolledBackChanges.length > 0 ? [`Dropped: ${patchResult.rolledBackChanges.join('; ')}`] : []),
+      ].join('\n'),
+    });
 
     // Send success message
     const patchDescription = generatePatchDescription(record.analysis);
@@ -352,16 +568,32 @@ async function handleApproval(approvalId: string, payload: SlackActionPayload):
       record.slackChannelId!,
       record.slackMessageTs!,
       'applied',
-      `Applied ${patchResult.appliedChanges.length} change(s):\n${patchResult.appliedChanges.map((c) => `• ${c}`).join('\n')}${
+      `${
+        patchResult.mode === 'atomic'
+          ? `Applied all ${patchResult.appliedChanges.length} change(s) as one all-or-nothing patch:`
+          : `Partial patch - applied ${patchResult.appliedChanges.length} of ${record.analysis.suggestedFix.changes.length} change(s):`
+      }\n${patchResult.appliedChanges.map((c) => `• ${c}`).join('\n')}${
         patchResult.skippedChanges.length > 0
           ? `\n\nSkipped ${patchResult.skippedChanges.length} change(s):\n${patchResult.skippedChanges.map((c) => `• ${c}`).join('\n')}`
           : ''
-      }`
+      }${
+        patchResult.rolledBackChanges.length > 0
+          ? `\n\nDropped ${patchResult.rolledBackChanges.length} dependent change(s):\n${patchResult.rolledBackChanges
+              .map((c) => `• ${c}`)
+              .join('\n')}`
+          : ''
+      }${
+        drift.changedNodes.length > 0
+          ? `\n\nRebased onto the current workflow, keeping edits made since analysis to: ${drift.changedNodes.join(', ')}`
+          : ''
+      }`,
+      approvalId
     );
 
     logger.info('Fix applied successfully', {
       approvalId,
       workflowId: record.workflowId,
+      mode: patchResult.mode,
       appliedChanges: patchResult.appliedChanges.length,
     });
   } catch (error) {
@@ -372,6 +604,15 @@ async function handleApproval(approvalId: string, payload: SlackActionPayload):
 
     // Update status
     approvalStore.update(approvalId, { status: 'pending' }); // Reset to pending for retry
+    auditLog.record({
+      type: 'failed',
+      approvalId,
+      workflowId: record.workflowId,
+      actor,
+      changes: record.analysis.suggestedFix.changes,
+      n8nResponse: summarizeN8nResponse(error as Error),
+      details: (error as Error).message,
+    });
 
     await slackClient.updateMessage(
       record.slackChannelId!,
@@ -394,6 +635,13 @@ async function handleRejection(approvalId: string, payload: SlackActionPayload):
 
   // Update status
   approvalStore.updateStatus(approvalId, 'rejected');
+  auditLog.record({
+    type: 'rejected',
+    approvalId,
+    workflowId: record.workflowId,
+    actor: slackActor(payload.user),
+    changes: record.analysis.suggestedFix.changes,
+  });
 
   // Notify Slack
   await slackClient.updateMessage(
@@ -404,6 +652,67 @@ async function handleRejection(approvalId: string, payload: SlackActionPayload):
   );
 }
 
+async function handleRollback(approvalId: string, payload: SlackActionPayload): Promise<void> {
+  logger.info('Rollback requested', {
+    approvalId,
+    user: payload.user.username,
+  });
+
+  const result = await rollbackFix(approvalId, slackActor(payload.user));
+  if (!result.success) {
+    await respondToSlack(payload, `Rollback failed: ${result.error}`);
+  }
+}
+
+async function handleReanalyze(approvalId: string, payload: SlackActionPayload): Promise<void> {
+  const record = approvalStore.get(approvalId);
+  if (!record) return;
+
+  if (record.status !== 'expired') {
+    await respondToSlack(payload, `Only expired approvals can be re-analyzed (current status: ${record.status})`);
+    return;
+  }
+
+  if (record.supersededBy) {
+    await respondToSlack(payload, 'This approval has already been re-analyzed');
+    return;
+  }
+
+  logger.info('Re-analysis requested', {
+    approvalId,
+    workflowId: record.workflowId,
+    user: payload.user.username,
+  });
+
+  await respondToSlack(payload, 'Re-analyzing against the current workflow...');
+
+  // Same pipeline as POST /debug - it fetches the live workflow and posts a new proposal
+  const { result } = await runDebugPipeline(
+    record.errorPayload,
+    logger.child({ approvalId }),
+    slackActor(payload.user)
+  );
+
+  if (!result.success) {
+    await respondToSlack(payload, `Re-analysis failed: ${result.error}`);
+    return;
+  }
+
+  if (result.approvalId) {
+    approvalStore.update(approvalId, { supersededBy: result.approvalId });
+  }
+}
+
+function formatConflictValue(value: unknown): string {
+  if (value === undefined) return '(not set)';
+  const text = JSON.stringify(value);
+  return text.length > 200 ? `${text.slice(0, 200)}...` : text;
+}
+
+function slackActor(user: { id: string; username: string }): AuditActor {
+  return { id: `slack:${user.id}`, name: `@${user.username}` };
+}
+
 async function respondToSlack(payload: SlackActionPayload, message: string): Promise<void> {
   try {
     const response = await fetch(payload.response_url, {
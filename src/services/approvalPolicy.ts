@@ -0,0 +1,100 @@
+import fs from 'fs';
+import { config } from '../utils/config.js';
+import { logger } from '../utils/logger.js';
+import { getInstance, hasInstance, listInstances } from './instances.js';
+import type { ApprovalPolicy, ApprovalRecord } from '../types/index.js';
+
+// The combined requirements of every policy matching an approval
+export interface ResolvedPolicy {
+  requiredApprovals: number;
+  // Approvers must belong to every one of these Slack user groups
+  requiredUserGroups: string[];
+  matchedPolicies: string[];
+}
+
+function validatePolicies(policies: ApprovalPolicy[]): void {
+  for (const policy of policies) {
+    if (!policy.name) {
+      throw new Error('Every policy needs a name');
+    }
+    if (policy.requiredApprovals !== undefined && (!Number.isInteger(policy.requiredApprovals) || policy.requiredApprovals < 1)) {
+      throw new Error(`Policy ${policy.name}: requiredApprovals must be a positive integer`);
+    }
+  }
+}
+
+function loadPolicies(): ApprovalPolicy[] {
+  if (!config.approvalPoliciesFile) {
+    return [];
+  }
+
+  try {
+    const policies = JSON.parse(fs.readFileSync(config.approvalPoliciesFile, 'utf-8')) as ApprovalPolicy[];
+    if (!Array.isArray(policies)) {
+      throw new Error('Policy file must contain a JSON array');
+    }
+
+    validatePolicies(policies);
+
+    logger.info('Approval policies loaded', { count: policies.length, names: policies.map((p) => p.name) });
+    return policies;
+  } catch (error) {
+    // A broken policy file must not silently fall back to single-click approval
+    logger.error('Failed to load approval policies', {
+      file: config.approvalPoliciesFile,
+      error: (error as Error).message,
+    });
+    process.exit(1);
+  }
+}
+
+// Per-instance policies come from the instances file, checked the same way
+function checkInstancePolicies(): void {
+  for (const instance of listInstances()) {
+    try {
+      validatePolicies(instance.policies);
+    } catch (error) {
+      logger.error('Failed to load approval policies', {
+        instance: instance.name,
+        error: (error as Error).message,
+      });
+      process.exit(1);
+    }
+  }
+}
+
+const policies = loadPolicies();
+checkInstancePolicies();
+
+type PolicySubject = Pick<ApprovalRecord, 'instance' | 'workflowId' | 'severity' | 'analysis'>;
+
+// A policy applies when every condition it sets matches the approval
+function policyMatches(policy: ApprovalPolicy, record: PolicySubject): boolean {
+  if (policy.workflowIds && !policy.workflowIds.includes(record.workflowId)) {
+    return false;
+  }
+
+  if (policy.severities && (!record.severity || !policy.severities.includes(record.severity))) {
+    return false;
+  }
+
+  if (policy.changeTypes) {
+    const changeTypes = record.analysis.suggestedFix.changes.map((c) => c.changeType);
+    if (!policy.changeTypes.some((type) => changeTypes.includes(type))) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+export function resolvePolicy(record: PolicySubject): ResolvedPolicy {
+  const instancePolicies = record.instance && hasInstance(record.instance) ? getInstance(record.instance).policies : [];
+  const matching = [...policies, ...instancePolicies].filter((policy) => policyMatches(policy, record));
+
+  return {
+    requiredApprovals: Math.max(1, ...matching.map((p) => p.requiredApprovals ?? 1)),
+    requiredUserGroups: [...new Set(matching.flatMap((p) => (p.requiredUserGroup ? [p.requiredUserGroup] : [])))],
+    matchedPolicies: matching.map((p) => p.name),
+  };
+}
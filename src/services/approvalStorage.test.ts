@@ -0,0 +1,81 @@
+import { after, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { SqliteApprovalStorage } from './approvalStorage.js';
+import type { ApprovalRecord, WorkflowData } from '../types/index.js';
+
+const workflow: WorkflowData = {
+  id: 'wf1',
+  name: 'Test',
+  active: true,
+  nodes: [
+    {
+      id: 'n1',
+      name: 'Schedule',
+      type: 'n8n-nodes-base.scheduleTrigger',
+      typeVersion: 1,
+      position: [0, 0],
+      parameters: { startAt: '2024-01-01T00:00:00.000Z' },
+    },
+  ],
+  connections: {},
+};
+
+function record(id: string, overrides: Partial<ApprovalRecord> = {}): ApprovalRecord {
+  const fix = { id: 'fix1', description: 'Test fix', changes: [], rollbackPossible: true };
+  return {
+    id,
+    workflowId: 'wf1',
+    workflowName: 'Test',
+    errorPayload: { workflowId: 'wf1', errorMessage: 'Boom' },
+    analysis: { rootCause: 'Test', explanation: 'Test', affectedNodes: [], confidence: 'high', suggestedFix: fix },
+    proposal: fix,
+    originalWorkflow: workflow,
+    status: 'pending',
+    createdAt: new Date('2024-01-01T10:00:00Z'),
+    expiresAt: new Date('2024-01-02T10:00:00Z'),
+    ...overrides,
+  };
+}
+
+describe('SqliteApprovalStorage', () => {
+  const storage = new SqliteApprovalStorage(':memory:');
+
+  after(() => {
+    storage.close();
+  });
+
+  it('restores every Date field of a stored record', () => {
+    const stored = record('dates', {
+      status: 'rolled_back',
+      lastOccurrenceAt: new Date('2024-01-01T11:00:00Z'),
+      rolledBackAt: new Date('2024-01-01T12:00:00Z'),
+      approvals: [{ userId: 'U1', username: 'tester', approvedAt: new Date('2024-01-01T10:30:00Z') }],
+      conversationHistory: [{ role: 'user', content: 'Why?', timestamp: new Date('2024-01-01T10:15:00Z') }],
+    });
+    storage.save(stored);
+
+    const loaded = storage.get('dates')!;
+    assert.ok(loaded.createdAt instanceof Date);
+    assert.ok(loaded.approvals![0].approvedAt instanceof Date);
+    assert.ok(loaded.conversationHistory![0].timestamp instanceof Date);
+    assert.deepEqual(loaded, stored);
+  });
+
+  it('leaves ISO strings in workflow parameters as strings', () => {
+    storage.save(record('strings'));
+
+    const [loaded] = storage.findByWorkflow('wf1').filter((r) => r.id === 'strings');
+    assert.equal(loaded.originalWorkflow.nodes[0].parameters.startAt, '2024-01-01T00:00:00.000Z');
+  });
+
+  it('finds records by status and Slack message after an update', () => {
+    storage.save(record('slack', { slackChannelId: 'C1', slackMessageTs: '1.2' }));
+    storage.save({ ...storage.get('slack')!, status: 'approved' });
+
+    assert.equal(storage.findBySlackMessage('C1', '1.2')?.status, 'approved');
+    assert.deepEqual(
+      storage.findByStatus('approved').map((r) => r.id),
+      ['slack']
+    );
+  });
+});
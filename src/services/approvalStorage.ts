@@ -0,0 +1,221 @@
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import type { Database as DatabaseType, Statement } from 'better-sqlite3';
+import { logger } from '../utils/logger.js';
+import type { ApprovalRecord } from '../types/index.js';
+
+// Persistence backend behind ApprovalStore
+export interface ApprovalStorage {
+  save(record: ApprovalRecord): void;
+  get(id: string): ApprovalRecord | undefined;
+  delete(id: string): boolean;
+  findBySlackMessage(channelId: string, messageTs: string): ApprovalRecord | undefined;
+  findByStatus(status: ApprovalRecord['status']): ApprovalRecord[];
+  findByWorkflow(workflowId: string): ApprovalRecord[];
+  findByFingerprint(fingerprint: string): ApprovalRecord[];
+  close(): void;
+}
+
+// In-memory backend - records are lost on restart, intended for tests and local development
+export class MemoryApprovalStorage implements ApprovalStorage {
+  private approvals: Map<string, ApprovalRecord> = new Map();
+
+  save(record: ApprovalRecord): void {
+    this.approvals.set(record.id, record);
+  }
+
+  get(id: string): ApprovalRecord | undefined {
+    return this.approvals.get(id);
+  }
+
+  delete(id: string): boolean {
+    return this.approvals.delete(id);
+  }
+
+  findBySlackMessage(channelId: string, messageTs: string): ApprovalRecord | undefined {
+    for (const record of this.approvals.values()) {
+      if (record.slackChannelId === channelId && record.slackMessageTs === messageTs) {
+        return record;
+      }
+    }
+    return undefined;
+  }
+
+  findByStatus(status: ApprovalRecord['status']): ApprovalRecord[] {
+    return Array.from(this.approvals.values()).filter((r) => r.status === status);
+  }
+
+  findByWorkflow(workflowId: string): ApprovalRecord[] {
+    return Array.from(this.approvals.values()).filter((r) => r.workflowId === workflowId);
+  }
+
+  findByFingerprint(fingerprint: string): ApprovalRecord[] {
+    return Array.from(this.approvals.values()).filter((r) => r.fingerprint === fingerprint);
+  }
+
+  close(): void {
+    this.approvals.clear();
+  }
+}
+
+interface ApprovalRow {
+  data: string;
+}
+
+// File-backed SQLite backend - records survive restarts and deploys
+export class SqliteApprovalStorage implements ApprovalStorage {
+  private db: DatabaseType;
+  private statements: {
+    upsert: Statement;
+    get: Statement;
+    delete: Statement;
+    bySlackMessage: Statement;
+    byStatus: Statement;
+    byWorkflow: Statement;
+    byFingerprint: Statement;
+  };
+
+  constructor(dbPath: string) {
+    if (dbPath !== ':memory:') {
+      fs.mkdirSync(path.dirname(dbPath), { recursive: true });
+    }
+
+    this.db = new Database(dbPath);
+    this.db.pragma('journal_mode = WAL');
+
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS approvals (
+        id TEXT PRIMARY KEY,
+        workflow_id TEXT NOT NULL,
+        status TEXT NOT NULL,
+        slack_channel_id TEXT,
+        slack_message_ts TEXT,
+        created_at INTEGER NOT NULL,
+        expires_at INTEGER NOT NULL,
+        data TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_approvals_workflow ON approvals (workflow_id);
+      CREATE INDEX IF NOT EXISTS idx_approvals_status ON approvals (status);
+      CREATE INDEX IF NOT EXISTS idx_approvals_slack ON approvals (slack_channel_id, slack_message_ts);
+    `);
+
+    this.migrate();
+
+    this.statements = {
+      upsert: this.db.prepare(`
+        INSERT INTO approvals (id, workflow_id, status, slack_channel_id, slack_message_ts, fingerprint, created_at, expires_at, data)
+        VALUES (@id, @workflowId, @status, @slackChannelId, @slackMessageTs, @fingerprint, @createdAt, @expiresAt, @data)
+        ON CONFLICT(id) DO UPDATE SET
+          workflow_id = excluded.workflow_id,
+          status = excluded.status,
+          slack_channel_id = excluded.slack_channel_id,
+          slack_message_ts = excluded.slack_message_ts,
+          fingerprint = excluded.fingerprint,
+          created_at = excluded.created_at,
+          expires_at = excluded.expires_at,
+          data = excluded.data
+      `),
+      get: this.db.prepare('SELECT data FROM approvals WHERE id = ?'),
+      delete: this.db.prepare('DELETE FROM approvals WHERE id = ?'),
+      bySlackMessage: this.db.prepare(
+        'SELECT data FROM approvals WHERE slack_channel_id = ? AND slack_message_ts = ? LIMIT 1'
+      ),
+      byStatus: this.db.prepare('SELECT data FROM approvals WHERE status = ? ORDER BY created_at'),
+      byWorkflow: this.db.prepare('SELECT data FROM approvals WHERE workflow_id = ? ORDER BY created_at'),
+      byFingerprint: this.db.prepare('SELECT data FROM approvals WHERE fingerprint = ? ORDER BY created_at'),
+    };
+
+    logger.info('SQLite approval storage opened', { path: dbPath });
+  }
+
+  // Add columns introduced after the initial schema to existing databases
+  private migrate(): void {
+    const columns = (this.db.prepare('PRAGMA table_info(approvals)').all() as Array<{ name: string }>).map(
+      (c) => c.name
+    );
+
+    if (!columns.includes('fingerprint')) {
+      this.db.exec('ALTER TABLE approvals ADD COLUMN fingerprint TEXT');
+    }
+    this.db.exec('CREATE INDEX IF NOT EXISTS idx_approvals_fingerprint ON approvals (fingerprint)');
+  }
+
+  save(record: ApprovalRecord): void {
+    this.statements.upsert.run({
+      id: record.id,
+      workflowId: record.workflowId,
+      status: record.status,
+      slackChannelId: record.slackChannelId ?? null,
+      slackMessageTs: record.slackMessageTs ?? null,
+      fingerprint: record.fingerprint ?? null,
+      createdAt: record.createdAt.getTime(),
+      expiresAt: record.expiresAt.getTime(),
+      data: JSON.stringify(record),
+    });
+  }
+
+  get(id: string): ApprovalRecord | undefined {
+    const row = this.statements.get.get(id) as ApprovalRow | undefined;
+    return row ? deserializeRecord(row.data) : undefined;
+  }
+
+  delete(id: string): boolean {
+    return this.statements.delete.run(id).changes > 0;
+  }
+
+  findBySlackMessage(channelId: string, messageTs: string): ApprovalRecord | undefined {
+    const row = this.statements.bySlackMessage.get(channelId, messageTs) as ApprovalRow | undefined;
+    return row ? deserializeRecord(row.data) : undefined;
+  }
+
+  findByStatus(status: ApprovalRecord['status']): ApprovalRecord[] {
+    const rows = this.statements.byStatus.all(status) as ApprovalRow[];
+    return rows.map((row) => deserializeRecord(row.data));
+  }
+
+  findByWorkflow(workflowId: string): ApprovalRecord[] {
+    const rows = this.statements.byWorkflow.all(workflowId) as ApprovalRow[];
+    return rows.map((row) => deserializeRecord(row.data));
+  }
+
+  findByFingerprint(fingerprint: string): ApprovalRecord[] {
+    const rows = this.statements.byFingerprint.all(fingerprint) as ApprovalRow[];
+    return rows.map((row) => deserializeRecord(row.data));
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
+
+// JSON has no Date type, so restore the Date fields of a stored record explicitly.
+// Only known fields are revived - workflow parameters may legitimately hold ISO strings.
+function deserializeRecord(data: string): ApprovalRecord {
+  const record = JSON.parse(data) as ApprovalRecord;
+
+  record.createdAt = new Date(record.createdAt);
+  record.expiresAt = new Date(record.expiresAt);
+  if (record.lastOccurrenceAt) {
+    record.lastOccurrenceAt = new Date(record.lastOccurrenceAt);
+  }
+  if (record.rolledBackAt) {
+    record.rolledBackAt = new Date(record.rolledBackAt);
+  }
+
+  if (record.approvals) {
+    record.approvals = record.approvals.map((vote) => ({
+      ...vote,
+      approvedAt: new Date(vote.approvedAt),
+    }));
+  }
+
+  if (record.conversationHistory) {
+    record.conversationHistory = record.conversationHistory.map((msg) => ({
+      ...msg,
+      timestamp: new Date(msg.timestamp),
+    }));
+  }
+
+  return record;
+}
@@ -1,13 +1,20 @@
+import { config } from '../utils/config.js';
 import { logger } from '../utils/logger.js';
+import { MemoryApprovalStorage, SqliteApprovalStorage } from './approvalStorage.js';
+import { auditLog, SYSTEM_ACTOR } from './auditLog.js';
+import type { ApprovalStorage } from './approvalStorage.js';
 import type { ApprovalRecord } from '../types/index.js';
 
-const DEFAULT_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours
+type ExpiryListener = (record: ApprovalRecord) => void | Promise<void>;
 
-class ApprovalStore {
-  private approvals: Map<string, ApprovalRecord> = new Map();
+export class ApprovalStore {
+  private storage: ApprovalStorage;
   private cleanupInterval: NodeJS.Timeout | null = null;
+  private expiryListeners: ExpiryListener[] = [];
+
+  constructor(storage: ApprovalStorage) {
+    this.storage = storage;
 
-  constructor() {
     // Start cleanup interval
     this.startCleanup();
   }
@@ -23,11 +30,20 @@ class ApprovalStore {
     const now = new Date();
     let expiredCount = 0;
 
-    for (const [id, record] of this.approvals) {
-      if (record.status === 'pending' && now > record.expiresAt) {
-        record.status = 'expired';
+    for (const record of this.storage.findByStatus('pending')) {
+      if (now > record.expiresAt) {
+        const expiredRecord: ApprovalRecord = { ...record, status: 'expired' };
+        this.storage.save(expiredRecord);
         expiredCount++;
-        logger.info('Approval expired', { approvalId: id });
+        logger.info('Approval expired', { approvalId: record.id });
+        auditLog.record({
+          type: 'expired',
+          approvalId: record.id,
+          workflowId: record.workflowId,
+          actor: SYSTEM_ACTOR,
+          details: `No decision before ${record.expiresAt.toISOString()}`,
+        });
+        this.notifyExpired(expiredRecord);
       }
     }
 
@@ -36,34 +52,51 @@ class ApprovalStore {
     }
   }
 
+  // Register a callback for approvals that expired without a decision
+  onExpired(listener: ExpiryListener): void {
+    this.expiryListeners.push(listener);
+  }
+
+  private notifyExpired(record: ApprovalRecord): void {
+    for (const listener of this.expiryListeners) {
+      Promise.resolve()
+        .then(() => listener(record))
+        .catch((error) => {
+          logger.error('Approval expiry listener failed', { approvalId: record.id, error: (error as Error).message });
+        });
+    }
+  }
+
   create(record: Omit<ApprovalRecord, 'createdAt' | 'expiresAt' | 'status'>): ApprovalRecord {
     const now = new Date();
+    // Approvals expire sooner or later depending on how urgent the error is
+    const ttlMs = config.approvalTtlMs[record.severity ?? 'error'];
     const fullRecord: ApprovalRecord = {
       ...record,
       status: 'pending',
       createdAt: now,
-      expiresAt: new Date(now.getTime() + DEFAULT_TTL_MS),
+      expiresAt: new Date(now.getTime() + ttlMs),
     };
 
-    this.approvals.set(record.id, fullRecord);
+    this.storage.save(fullRecord);
     logger.info('Approval record created', { approvalId: record.id, workflowId: record.workflowId });
 
     return fullRecord;
   }
 
   get(id: string): ApprovalRecord | undefined {
-    return this.approvals.get(id);
+    return this.storage.get(id);
   }
 
   update(id: string, updates: Partial<ApprovalRecord>): ApprovalRecord | undefined {
-    const record = this.approvals.get(id);
+    const record = this.storage.get(id);
     if (!record) {
       logger.warn('Approval record not found', { approvalId: id });
       return undefined;
     }
 
     const updatedRecord = { ...record, ...updates };
-    this.approvals.set(id, updatedRecord);
+    this.storage.save(updatedRecord);
     logger.info('Approval record updated', { approvalId: id, status: updatedRecord.status });
 
     return updatedRecord;
@@ -74,24 +107,38 @@ class ApprovalStore {
   }
 
   getBySlackMessage(channelId: string, messageTs: string): ApprovalRecord | undefined {
-    for (const record of this.approvals.values()) {
-      if (record.slackChannelId === channelId && record.slackMessageTs === messageTs) {
-        return record;
-      }
-    }
-    return undefined;
+    return this.storage.findBySlackMessage(channelId, messageTs);
   }
 
   getPending(): ApprovalRecord[] {
-    return Array.from(this.approvals.values()).filter((r) => r.status === 'pending');
+    return this.storage.findByStatus('pending');
   }
 
   getByWorkflow(workflowId: string): ApprovalRecord[] {
-    return Array.from(this.approvals.values()).filter((r) => r.workflowId === workflowId);
+    return this.storage.findByWorkflow(workflowId);
+  }
+
+  // An approval is open while it can still absorb repeats of the same failure
+  getOpenByFingerprint(fingerprint: string): ApprovalRecord | undefined {
+    return this.storage
+      .findByFingerprint(fingerprint)
+      .find((r) => r.status === 'pending' || r.status === 'approved');
+  }
+
+  recordOccurrence(id: string, count = 1): ApprovalRecord | undefined {
+    const record = this.storage.get(id);
+    if (!record) {
+      return undefined;
+    }
+
+    return this.update(id, {
+      occurrenceCount: (record.occurrenceCount ?? 1) + count,
+      lastOccurrenceAt: new Date(),
+    });
   }
 
   delete(id: string): boolean {
-    const result = this.approvals.delete(id);
+    const result = this.storage.delete(id);
     if (result) {
       logger.info('Approval record deleted', { approvalId: id });
     }
@@ -103,9 +150,18 @@ class ApprovalStore {
       clearInterval(this.cleanupInterval);
       this.cleanupInterval = null;
     }
-    this.approvals.clear();
+    // Close rather than clear - persisted approvals must survive the shutdown
+    this.storage.close();
+  }
+}
+
+function createStorage(): ApprovalStorage {
+  if (config.approvalStoreBackend === 'memory') {
+    logger.warn('Using in-memory approval storage - pending approvals will be lost on restart');
+    return new MemoryApprovalStorage();
   }
+  return new SqliteApprovalStorage(config.approvalDbPath);
 }
 
 // Singleton instance
-export const approvalStore = new ApprovalStore();
+export const approvalStore = new ApprovalStore(createStorage());
@@ -0,0 +1,229 @@
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import type { Database as DatabaseType, Statement } from 'better-sqlite3';
+import { AxiosError } from 'axios';
+import { v4 as uuidv4 } from 'uuid';
+import { config } from '../utils/config.js';
+import { logger } from '../utils/logger.js';
+import type { AuditActor, AuditEvent, WorkflowData } from '../types/index.js';
+
+export interface AuditQuery {
+  workflowId?: string;
+  // Matches either the actor id or display name
+  actor?: string;
+  from?: Date;
+  to?: Date;
+  limit?: number;
+}
+
+// The agent itself, for lifecycle events nobody triggered directly
+export const SYSTEM_ACTOR: AuditActor = { id: 'system', name: 'n8n-debug-agent' };
+
+interface AuditStorage {
+  append(event: AuditEvent): void;
+  query(filter: AuditQuery): AuditEvent[];
+  close(): void;
+}
+
+class MemoryAuditStorage implements AuditStorage {
+  private events: AuditEvent[] = [];
+
+  append(event: AuditEvent): void {
+    this.events.push(event);
+  }
+
+  query(filter: AuditQuery): AuditEvent[] {
+    const matches = this.events.filter(
+      (e) =>
+        (!filter.workflowId || e.workflowId === filter.workflowId) &&
+        (!filter.actor || e.actor.id === filter.actor || e.actor.name === filter.actor) &&
+        (!filter.from || e.timestamp >= filter.from) &&
+        (!filter.to || e.timestamp <= filter.to)
+    );
+    return filter.limit ? matches.slice(-filter.limit) : matches;
+  }
+
+  close(): void {
+    this.events = [];
+  }
+}
+
+interface AuditRow {
+  data: string;
+}
+
+class SqliteAuditStorage implements AuditStorage {
+  private db: DatabaseType;
+  private insert: Statement;
+
+  constructor(dbPath: string) {
+    if (dbPath !== ':memory:') {
+      fs.mkdirSync(path.dirname(dbPath), { recursive: true });
+    }
+
+    this.db = new Database(dbPath);
+    this.db.pragma('journal_mode = WAL');
+
+    // Triggers make the table append-only, even for direct SQL access through the app
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS audit_events (
+        id TEXT PRIMARY KEY,
+        type TEXT NOT NULL,
+        approval_id TEXT NOT NULL,
+        workflow_id TEXT NOT NULL,
+        actor_id TEXT NOT NULL,
+        actor_name TEXT NOT NULL,
+        timestamp INTEGER NOT NULL,
+        data TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS idx_audit_workflow ON audit_events (workflow_id);
+      CREATE INDEX IF NOT EXISTS idx_audit_actor ON audit_events (actor_id);
+      CREATE INDEX IF NOT EXISTS idx_audit_timestamp ON audit_events (timestamp);
+      CREATE TRIGGER IF NOT EXISTS audit_events_no_update BEFORE UPDATE ON audit_events
+        BEGIN SELECT RAISE(ABORT, 'audit_events is append-only'); END;
+      CREATE TRIGGER IF NOT EXISTS audit_events_no_delete BEFORE DELETE ON audit_events
+        BEGIN SELECT RAISE(ABORT, 'audit_events is append-only'); END;
+    `);
+
+    this.insert = this.db.prepare(`
+      INSERT INTO audit_events (id, type, approval_id, workflow_id, actor_id, actor_name, timestamp, data)
+      VALUES (@id, @type, @approvalId, @workflowId, @actorId, @actorName, @timestamp, @data)
+    `);
+  }
+
+  append(event: AuditEvent): void {
+    this.insert.run({
+      id: event.id,
+      type: event.type,
+      approvalId: event.approvalId,
+      workflowId: event.workflowId,
+      actorId: event.actor.id,
+      actorName: event.actor.name,
+      timestamp: event.timestamp.getTime(),
+      data: JSON.stringify(event),
+    });
+  }
+
+  query(filter: AuditQuery): AuditEvent[] {
+    const conditions: string[] = [];
+    const params: Record<string, unknown> = {};
+
+    if (filter.workflowId) {
+      conditions.push('workflow_id = @workflowId');
+      params.workflowId = filter.workflowId;
+    }
+    if (filter.actor) {
+      conditions.push('(actor_id = @actor OR actor_name = @actor)');
+      params.actor = filter.actor;
+    }
+    if (filter.from) {
+      conditions.push('timestamp >= @from');
+      params.from = filter.from.getTime();
+    }
+    if (filter.to) {
+      conditions.push('timestamp <= @to');
+      params.to = filter.to.getTime();
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    // Newest N when limited, but always returned oldest first
+    const sql = filter.limit
+      ? `SELECT data FROM (SELECT data, timestamp FROM audit_events ${where} ORDER BY timestamp DESC LIMIT @limit) ORDER BY timestamp`
+      : `SELECT data FROM audit_events ${where} ORDER BY timestamp`;
+    if (filter.limit) {
+      params.limit = filter.limit;
+    }
+
+    const rows = this.db.prepare(sql).all(params) as AuditRow[];
+    return rows.map((row) => {
+      const event = JSON.parse(row.data) as AuditEvent;
+      event.timestamp = new Date(event.timestamp);
+      return event;
+    });
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
+
+export class AuditLog {
+  private storage: AuditStorage;
+
+  constructor(storage: AuditStorage) {
+    this.storage = storage;
+  }
+
+  record(event: Omit<AuditEvent, 'id' | 'timestamp'>): AuditEvent {
+    const fullEvent: AuditEvent = {
+      ...event,
+      id: uuidv4(),
+      timestamp: new Date(),
+    };
+
+    try {
+      this.storage.append(fullEvent);
+    } catch (error) {
+      // Never let auditing break the approval flow, but make the gap visible
+      logger.error('Failed to write audit event', {
+        type: event.type,
+        approvalId: event.approvalId,
+        error: (error as Error).message,
+      });
+      return fullEvent;
+    }
+
+    logger.info('Audit event recorded', {
+      type: fullEvent.type,
+      approvalId: fullEvent.approvalId,
+      workflowId: fullEvent.workflowId,
+      actor: fullEvent.actor.id,
+    });
+
+    return fullEvent;
+  }
+
+  query(filter: AuditQuery = {}): AuditEvent[] {
+    return this.storage.query(filter);
+  }
+
+  destroy(): void {
+    this.storage.close();
+  }
+}
+
+// Keep the audit trail useful without storing entire workflows for every event
+export function summarizeN8nResponse(response: WorkflowData | AxiosError | Error): Record<string, unknown> {
+  if (response instanceof AxiosError) {
+    return {
+      error: response.message,
+      status: response.response?.status,
+      data: response.response?.data,
+    };
+  }
+
+  if (response instanceof Error) {
+    return { error: response.message };
+  }
+
+  const workflow = response as WorkflowData & { updatedAt?: string; versionId?: string };
+  return {
+    id: workflow.id,
+    name: workflow.name,
+    active: workflow.active,
+    nodeCount: workflow.nodes?.length,
+    updatedAt: workflow.updatedAt,
+    versionId: workflow.versionId,
+  };
+}
+
+function createStorage(): AuditStorage {
+  if (config.approvalStoreBackend === 'memory') {
+    return new MemoryAuditStorage();
+  }
+  return new SqliteAuditStorage(config.approvalDbPath);
+}
+
+// Singleton instance
+export const auditLog = new AuditLog(createStorage());
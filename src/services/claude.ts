@@ -2,13 +2,19 @@ import Anthropic from '@anthropic-ai/sdk';
 import { v4 as uuidv4 } from 'uuid';
 import { config } from '../utils/config.js';
 import { logger } from '../utils/logger.js';
+import { sampleItems } from '../analyzers/executionContext.js';
+import type { ExpressionFinding } from '../analyzers/expressionAnalyzer.js';
 import type {
   ErrorPayload,
   ErrorAnalysis,
+  ExecutionContext,
+  ExecutionHistory,
+  ItemSample,
   WorkflowData,
   WorkflowChange,
   N8nSkill,
   ConversationMessage,
+  CredentialSummary,
 } from '../types/index.js';
 
 const SYSTEM_PROMPT = `You are an expert n8n workflow debugging assistant. Your role is to analyze workflow errors and propose fixes.
@@ -33,6 +39,11 @@ interface AnalysisContext {
   workflow: WorkflowData;
   skills: N8nSkill[];
   nodeDocumentation?: string;
+  expressionFindings?: ExpressionFinding[];
+  // Existing credentials a set_credential change may switch to
+  availableCredentials?: CredentialSummary[];
+  executionHistory?: ExecutionHistory;
+  executionContext?: ExecutionContext;
 }
 
 interface ClaudeAnalysisResponse {
@@ -43,11 +54,21 @@ interface ClaudeAnalysisResponse {
     description: string;
     changes: WorkflowChange[];
     rollbackPossible: boolean;
+    atomic?: boolean;
   };
   confidence: 'high' | 'medium' | 'low';
   relatedSkills: string[];
 }
 
+// Items of a payload's inputData shown in the prompt
+const MAX_PROMPT_ITEMS = 5;
+
+function formatItemSample(sample: ItemSample): string {
+  const omitted = sample.totalItems - sample.items.length;
+  const more = omitted > 0 ? `(${omitted} more of ${sample.totalItems} items not shown)\n` : '';
+  return `\`\`\`json\n${JSON.stringify(sample.items, null, 2)}\n\`\`\`\n${more}`;
+}
+
 export class ClaudeClient {
   private client: Anthropic;
 
@@ -111,10 +132,32 @@ export class ClaudeClient {
                           nodeName: { type: 'string' },
                           changeType: {
                             type: 'string',
-                            enum: ['modify_node', 'add_node', 'remove_node', 'modify_connection', 'modify_settings'],
+                            enum: ['modify_node', 'add_node', 'remove_node', 'modify_connection', 'modify_settings', 'rename_node', 'set_credential', 'insert_node_between'],
+                            description:
+                              'rename_node takes the current name as nodeName and the new name as newValue; connections and expressions referencing the node are updated automatically. set_credential switches a node to one of the listed available credentials. insert_node_between splices a new node into an existing connection and lays it out; prefer it over add_node plus modify_connection',
+                          },
+                          path: {
+                            type: 'string',
+                            description:
+                              'Location inside the node or settings. Use brackets for array items (parameters.assignments.assignments[2].value) or a JSON pointer (/parameters/assignments/assignments/2/value)',
+                          },
+                          operation: {
+                            type: 'string',
+                            enum: ['set', 'unset', 'append'],
+                            description: 'set replaces the value at path (default), unset removes it, append pushes newValue onto the array at path',
+                          },
+                          oldValue: {
+                            description:
+                              'The current value at path, copied from the workflow. The fix is rejected as stale if it no longer matches when applied',
+                          },
+                          newValue: {
+                            description:
+                              "For modify_connection: { from, to, action: 'add' | 'remove', connectionType, outputIndex, inputIndex }. connectionType defaults to main; AI sub-nodes use ai_languageModel, ai_tool, ai_memory, ai_outputParser etc. and connect from the sub-node to the agent. For set_credential: { credentialType, id, name } of an available credential. For insert_node_between: { from, to, node: { name, type, typeVersion, parameters }, outputIndex } - outputIndex of from is only needed when several of its outputs lead to to",
+                          },
+                          group: {
+                            type: 'string',
+                            description: 'Changes that only work together (e.g. adding a node and connecting it) share a group id',
                           },
-                          path: { type: 'string' },
-                          newValue: {},
                           description: { type: 'string' },
                         },
                         required: ['changeType', 'newValue', 'description'],
@@ -124,6 +167,11 @@ export class ClaudeClient {
                       type: 'boolean',
                       description: 'Whether the change can be easily reverted',
                     },
+                    atomic: {
+                      type: 'boolean',
+                      description:
+                        'Apply all changes or none (default for multiple changes). Set false only when the change groups are independent improvements',
+                    },
                   },
                   required: ['description', 'changes', 'rollbackPossible'],
                 },
@@ -165,6 +213,7 @@ export class ClaudeClient {
           description: analysis.suggestedFix.description,
           changes: analysis.suggestedFix.changes,
           rollbackPossible: analysis.suggestedFix.rollbackPossible,
+          atomic: analysis.suggestedFix.atomic,
         },
         confidence: analysis.confidence,
         relatedSkills: analysis.relatedSkills,
@@ -176,7 +225,16 @@ export class ClaudeClient {
   }
 
   private buildPrompt(context: AnalysisContext): string {
-    const { errorPayload, workflow, skills, nodeDocumentation } = context;
+    const {
+      errorPayload,
+      workflow,
+      skills,
+      nodeDocumentation,
+      expressionFindings,
+      availableCredentials,
+      executionHistory,
+      executionContext,
+    } = context;
 
     let prompt = `## Error Information
 
@@ -202,7 +260,52 @@ export class ClaudeClient {
     }
 
     if (errorPayload.inputData) {
-      prompt += `\n**Input Data:**\n\`\`\`json\n${JSON.stringify(errorPayload.inputData, null, 2).slice(0, 1000)}\n\`\`\`\n`;
+      const items = Array.isArray(errorPayload.inputData) ? errorPayload.inputData : [errorPayload.inputData];
+      prompt += `\n**Input Data:**\n${formatItemSample(sampleItems(items, MAX_PROMPT_ITEMS))}`;
+    } else if (executionContext?.nodeInput) {
+      prompt += `\n**Input Data (from the execution):**\n${formatItemSample(executionContext.nodeInput)}`;
+    }
+
+    if (executionContext) {
+      prompt += `\n**Execution:** mode ${executionContext.mode}${executionContext.status ? `, status ${executionContext.status}` : ''}\n`;
+      const { error } = executionContext;
+      if (error?.description) {
+        prompt += `**Error Description:** ${error.description}\n`;
+      }
+      if (error?.httpCode) {
+        prompt += `**HTTP Status:** ${error.httpCode}\n`;
+      }
+      for (const [nodeName, sample] of Object.entries(executionContext.upstreamOutputs)) {
+        prompt += `\n**Output of ${nodeName}:**\n${formatItemSample(sample)}`;
+      }
+    }
+
+    // Whether the failure is new or chronic changes what a good fix looks like
+    if (executionHistory && executionHistory.total > 0) {
+      prompt += `\n**Recent Runs:** ${executionHistory.failed} of the last ${executionHistory.total} failed`;
+      if (executionHistory.consecutiveFailures > 0) {
+        prompt += `, ${executionHistory.consecutiveFailures} in a row since ${executionHistory.failingSince}`;
+      }
+      if (executionHistory.firstFailureAt && executionHistory.firstFailureAt !== executionHistory.failingSince) {
+        prompt += `. Earliest of these failures: ${executionHistory.firstFailureAt}`;
+      }
+      prompt += executionHistory.lastSuccessAt
+        ? `. Last successful run: ${executionHistory.lastSuccessAt}\n`
+        : `. None of them succeeded\n`;
+    }
+
+    if (expressionFindings && expressionFindings.length > 0) {
+      prompt += `\n**Expression Problems (static analysis):**\n`;
+      for (const finding of expressionFindings.slice(0, 20)) {
+        prompt += `- ${finding.message}: \`{{ ${finding.expression.slice(0, 200)} }}\`\n`;
+      }
+    }
+
+    if (availableCredentials && availableCredentials.length > 0) {
+      prompt += `\n**Available Credentials (use with set_credential, never invent others):**\n`;
+      for (const credential of availableCredentials) {
+        prompt += `- ${credential.name} (type: ${credential.type}, id: ${credential.id})\n`;
+      }
     }
 
     // Add workflow structure
@@ -215,18 +318,25 @@ export class ClaudeClient {
       // Add relevant parameters for the error node
       if (node.name === errorPayload.nodeName) {
         prompt += `  **Parameters:**\n\`\`\`json\n${JSON.stringify(node.parameters, null, 2).slice(0, 500)}\n\`\`\`\n`;
+        // Node credentials are { id, name } references, not secrets
+        for (const [credentialType, reference] of Object.entries(node.credentials ?? {})) {
+          const { id, name } = reference as { id?: string; name?: string };
+          prompt += `  **Credential:** ${credentialType} = ${name} (id: ${id})\n`;
+        }
       }
     }
 
     // Add connections overview
     prompt += `\n**Connections:**\n`;
     for (const [nodeName, connections] of Object.entries(workflow.connections)) {
-      if (connections.main && connections.main.length > 0) {
-        for (const outputs of connections.main) {
-          for (const output of outputs) {
-            prompt += `- ${nodeName} -> ${output.node}\n`;
+      for (const [connectionType, outputs] of Object.entries(connections)) {
+        (outputs ?? []).forEach((targets, outputIndex) => {
+          for (const target of targets ?? []) {
+            // AI sub-nodes (models, tools, memory) point at the agent that uses them
+            const output = outputs!.length > 1 ? ` output ${outputIndex}` : '';
+            prompt += `- ${nodeName} -> ${target.node} [${connectionType}${output}]\n`;
           }
-        }
+        });
       }
     }
 
@@ -376,15 +486,24 @@ Provide a revised analysis using the provide_analysis tool.`;
                         type: 'object',
                         properties: {
                           nodeName: { type: 'string' },
-                          changeType: { type: 'string', enum: ['modify_node', 'add_node', 'remove_node', 'modify_connection', 'modify_settings'] },
-                          path: { type: 'string' },
-                          newValue: {},
+                          changeType: {
+                            type: 'string',
+                            enum: ['modify_node', 'add_node', 'remove_node', 'modify_connection', 'modify_settings', 'rename_node', 'set_credential', 'insert_node_between'],
+                            description:
+                              'rename_node: nodeName is the current name, newValue the new name. set_credential: newValue is { credentialType, id, name }. insert_node_between: newValue is { from, to, node, outputIndex }',
+                          },
+                          path: { type: 'string', description: 'Dotted path with [n] array indices, or a JSON pointer' },
+                          operation: { type: 'string', enum: ['set', 'unset', 'append'] },
+                          oldValue: { description: 'Current value at path, checked before applying' },
+                          newValue: { description: 'For modify_connection: { from, to, action, connectionType (default main), outputIndex, inputIndex }' },
+                          group: { type: 'string', description: 'Shared by changes that only work together' },
                           description: { type: 'string' },
                         },
                         required: ['changeType', 'newValue', 'description'],
                       },
                     },
                     rollbackPossible: { type: 'boolean' },
+                    atomic: { type: 'boolean', description: 'Apply all changes or none (default for multiple changes)' },
                   },
                   required: ['description', 'changes', 'rollbackPossible'],
                 },
@@ -415,6 +534,7 @@ Provide a revised analysis using the provide_analysis tool.`;
           description: analysis.suggestedFix.description,
           changes: analysis.suggestedFix.changes,
           rollbackPossible: analysis.suggestedFix.rollbackPossible,
+          atomic: analysis.suggestedFix.atomic,
         },
         confidence: analysis.confidence,
         relatedSkills: analysis.relatedSkills,
@@ -0,0 +1,316 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { Logger } from 'winston';
+import { getN8nClient } from './instances.js';
+import { claudeClient } from './claude.js';
+import { skillsService } from './skills.js';
+import { mcpService } from './mcp.js';
+import { slackClient } from './slack.js';
+import { sandboxVerifier } from './sandbox.js';
+import { approvalStore } from './approvalStore.js';
+import { markExecutionHandled } from './handledExecutions.js';
+import { auditLog, SYSTEM_ACTOR } from './auditLog.js';
+import { resolvePolicy } from './approvalPolicy.js';
+import { parseError, fingerprintError } from '../analyzers/errorParser.js';
+import { CircuitOpenError } from '../utils/circuitBreaker.js';
+import { summarizeExecutionHistory } from '../analyzers/executionHistory.js';
+import { extractExecutionContext, enrichPayload } from '../analyzers/executionContext.js';
+import type {
+  ErrorPayload,
+  DebugResult,
+  AuditActor,
+  CredentialSummary,
+  ExecutionContext,
+  ExecutionHistory,
+} from '../types/index.js';
+
+export interface PipelineOutcome {
+  statusCode: number;
+  result: DebugResult;
+}
+
+// Recent runs looked at to tell a new failure from a chronic one
+const EXECUTION_HISTORY_SIZE = 20;
+
+// Fingerprints currently being analyzed, with the number of repeats received meanwhile
+const inFlightAnalyses = new Map<string, number>();
+
+// Analyze an error and post a fix proposal for approval.
+// Shared by POST /debug and the Slack "Re-analyze" action, so the payload must already be validated.
+export async function runDebugPipeline(
+  payload: ErrorPayload,
+  log: Logger,
+  actor: AuditActor = SYSTEM_ACTOR
+): Promise<PipelineOutcome> {
+  let ownedFingerprint: string | undefined;
+
+  // Only once the failure has an approval, so a run that fails here is picked up again by polling
+  const markHandled = () => {
+    if (payload.executionId) {
+      markExecutionHandled(payload.instance, payload.executionId);
+    }
+  };
+
+  try {
+    const n8nClient = getN8nClient(payload.instance);
+
+    // Fetch workflow from n8n
+    log.info('Fetching workflow', { workflowId: payload.workflowId });
+    let workflow;
+    try {
+      workflow = await n8nClient.getWorkflow(payload.workflowId);
+    } catch (error) {
+      log.error('Failed to fetch workflow', { error: (error as Error).message });
+      if (error instanceof CircuitOpenError) {
+        return {
+          statusCode: 503,
+          result: {
+            success: false,
+            error: error.message,
+            message: 'n8n is unavailable, try again later',
+          },
+        };
+      }
+      return {
+        statusCode: 404,
+        result: {
+          success: false,
+          error: `Workflow not found: ${payload.workflowId}`,
+          message: 'Could not retrieve workflow from n8n',
+        },
+      };
+    }
+
+    // The execution has the node's real input and the full error, whatever the error workflow sent
+    let executionContext: ExecutionContext | undefined;
+    if (payload.executionId) {
+      try {
+        const execution = await n8nClient.getExecution(payload.executionId, true);
+        executionContext = extractExecutionContext(execution, workflow, payload.nodeName);
+        payload = enrichPayload(payload, executionContext);
+        log.debug('Execution context fetched', {
+          mode: executionContext.mode,
+          failingNode: executionContext.failingNode,
+          upstreamNodes: Object.keys(executionContext.upstreamOutputs).length,
+        });
+      } catch (error) {
+        log.warn('Could not fetch execution', { executionId: payload.executionId, error: (error as Error).message });
+      }
+    }
+
+    // Parse the error to understand its nature
+    const parsedError = parseError(payload, workflow, payload.inputData ?? executionContext?.nodeInput?.items);
+    log.info('Error parsed', {
+      category: parsedError.category,
+      severity: parsedError.severity,
+      expressionFindings: parsedError.expressionFindings.length,
+    });
+
+    // Repeats of a failure that already has an open approval don't start a new analysis
+    const fingerprint = fingerprintError(payload, parsedError);
+    const existingApproval = approvalStore.getOpenByFingerprint(fingerprint);
+    if (existingApproval) {
+      const updatedApproval = approvalStore.recordOccurrence(existingApproval.id)!;
+      log.info('Duplicate error attached to open approval', {
+        approvalId: existingApproval.id,
+        occurrenceCount: updatedApproval.occurrenceCount,
+      });
+
+      markHandled();
+      await slackClient.refreshProposal(updatedApproval);
+
+      return {
+        statusCode: 200,
+        result: {
+          success: true,
+          approvalId: existingApproval.id,
+          deduplicated: true,
+          occurrenceCount: updatedApproval.occurrenceCount,
+          message: 'Duplicate error attached to existing approval',
+        },
+      };
+    }
+
+    if (inFlightAnalyses.has(fingerprint)) {
+      inFlightAnalyses.set(fingerprint, inFlightAnalyses.get(fingerprint)! + 1);
+      log.info('Duplicate error received while analysis is in progress', { fingerprint });
+      markHandled();
+
+      return {
+        statusCode: 200,
+        result: {
+          success: true,
+          deduplicated: true,
+          message: 'An analysis for this error is already in progress',
+        },
+      };
+    }
+
+    inFlightAnalyses.set(fingerprint, 0);
+    ownedFingerprint = fingerprint;
+
+    // Fetch relevant skills based on error context
+    log.info('Fetching relevant skills');
+    const allSkills = await skillsService.fetchSkills();
+    const relevantSkills = skillsService.filterSkillsForError(
+      allSkills,
+      parsedError.nodeType,
+      payload.errorMessage
+    );
+    log.debug('Skills filtered', { count: relevantSkills.length });
+
+    // Fetch node documentation from MCP (if available)
+    let nodeDocumentation: string | undefined;
+    if (parsedError.nodeType) {
+      log.info('Fetching node documentation from MCP', { nodeType: parsedError.nodeType });
+      const mcpDoc = await mcpService.getNodeDocumentation(parsedError.nodeType);
+      if (mcpDoc?.documentation) {
+        nodeDocumentation = mcpDoc.documentation;
+        log.debug('MCP documentation fetched', { nodeType: parsedError.nodeType, docLength: nodeDocumentation.length });
+      }
+    }
+
+    // How often the workflow failed recently and since when
+    let executionHistory: ExecutionHistory | undefined;
+    try {
+      const executions = await n8nClient.getRecentExecutions(payload.workflowId, EXECUTION_HISTORY_SIZE);
+      executionHistory = summarizeExecutionHistory(executions);
+      log.debug('Execution history summarized', { ...executionHistory });
+    } catch (error) {
+      log.warn('Could not fetch execution history', { error: (error as Error).message });
+    }
+
+    // Offer existing credentials of the same types when the failing node uses any
+    const errorNode = workflow.nodes.find((n) => n.name === parsedError.nodeName);
+    const credentialTypes = Object.keys(errorNode?.credentials ?? {});
+    let availableCredentials: CredentialSummary[] | undefined;
+    if (credentialTypes.length > 0) {
+      try {
+        availableCredentials = (await n8nClient.listCredentials()).filter((c) => credentialTypes.includes(c.type));
+      } catch (error) {
+        log.warn('Could not list credentials', { error: (error as Error).message });
+      }
+    }
+
+    // Analyze error with Claude
+    log.info('Analyzing error with Claude');
+    const analysis = await claudeClient.analyzeError({
+      errorPayload: payload,
+      workflow,
+      skills: relevantSkills,
+      nodeDocumentation,
+      expressionFindings: parsedError.expressionFindings,
+      availableCredentials,
+      executionHistory,
+      executionContext,
+    });
+
+    log.info('Analysis complete', {
+      confidence: analysis.confidence,
+      affectedNodes: analysis.affectedNodes,
+      changesCount: analysis.suggestedFix.changes.length,
+    });
+
+    const verification = await sandboxVerifier.verify({
+      workflow,
+      analysis,
+      errorPayload: payload,
+      nodeName: parsedError.nodeName,
+      credentials: availableCredentials,
+    });
+    if (verification) {
+      log.info('Sandbox verification complete', { status: verification.status, message: verification.message });
+    }
+
+    const policy = resolvePolicy({
+      instance: payload.instance,
+      workflowId: payload.workflowId,
+      severity: parsedError.severity,
+      analysis,
+    });
+    if (policy.matchedPolicies.length > 0) {
+      log.info('Approval policies matched', {
+        policies: policy.matchedPolicies,
+        requiredApprovals: policy.requiredApprovals,
+      });
+    }
+
+    // Create approval record
+    const approvalId = uuidv4();
+    const approvalRecord = approvalStore.create({
+      id: approvalId,
+      instance: payload.instance,
+      workflowId: payload.workflowId,
+      workflowName: workflow.name,
+      executionId: payload.executionId,
+      errorPayload: payload,
+      analysis,
+      proposal: analysis.suggestedFix,
+      originalWorkflow: workflow,
+      severity: parsedError.severity,
+      skills: relevantSkills,
+      nodeDocumentation,
+      verification,
+      executionHistory,
+      fingerprint,
+      occurrenceCount: 1 + inFlightAnalyses.get(fingerprint)!,
+      lastOccurrenceAt: new Date(),
+      approvals: [],
+      requiredApprovals: policy.requiredApprovals,
+    });
+
+    markHandled();
+
+    auditLog.record({
+      type: 'created',
+      approvalId,
+      workflowId: payload.workflowId,
+      actor,
+      changes: analysis.suggestedFix.changes,
+      details: analysis.rootCause,
+    });
+
+    // Send to Slack for approval
+    log.info('Sending approval request to Slack');
+    try {
+      const slackMessage = await slackClient.sendProposal(approvalRecord);
+      if (slackMessage) {
+        approvalStore.update(approvalId, {
+          slackMessageTs: slackMessage.ts,
+          slackChannelId: slackMessage.channel,
+        });
+      } else {
+        log.warn('Slack not configured, approval stored but no notification sent');
+      }
+    } catch (slackError) {
+      log.error('Failed to send Slack message', { error: (slackError as Error).message });
+      // Continue anyway - the fix is still in the approval store
+    }
+
+    log.info('Debug flow complete', { approvalId });
+
+    return {
+      statusCode: 200,
+      result: {
+        success: true,
+        approvalId,
+        analysis,
+        message: 'Error analyzed and fix proposed. Awaiting approval in Slack.',
+      },
+    };
+  } catch (error) {
+    log.error('Debug flow failed', { error: (error as Error).message, stack: (error as Error).stack });
+
+    return {
+      statusCode: 500,
+      result: {
+        success: false,
+        error: (error as Error).message,
+        message: 'An error occurred while processing the debug request',
+      },
+    };
+  } finally {
+    if (ownedFingerprint) {
+      inFlightAnalyses.delete(ownedFingerprint);
+    }
+  }
+}
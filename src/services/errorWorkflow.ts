@@ -0,0 +1,302 @@
+import { v4 as uuidv4 } from 'uuid';
+import { config } from '../utils/config.js';
+import { logger } from '../utils/logger.js';
+import { NODE_SPACING } from '../analyzers/layout.js';
+import { DEFAULT_INSTANCE, getN8nClient } from './instances.js';
+import type { N8nClient } from './n8n.js';
+import type { CredentialSummary, WorkflowChange, WorkflowData, WorkflowNode } from '../types/index.js';
+
+// The installed workflow and its credential are found again by these names
+export const ERROR_WORKFLOW_NAME = 'n8n Debug Agent - Error Reporter';
+const CREDENTIAL_NAME = 'n8n Debug Agent API token';
+const TRIGGER_NAME = 'Error Trigger';
+const REPORTER_NAME = 'Send to Debug Agent';
+
+// Workflows to cover: any combination of these, all of them when all is set
+export interface WorkflowSelection {
+  all?: boolean;
+  tags?: string[];
+  workflowIds?: string[];
+}
+
+export interface WorkflowRef {
+  id: string;
+  name: string;
+}
+
+export interface InstallResult {
+  instance: string;
+  errorWorkflowId: string;
+  created: boolean;
+  // Workflows now reporting to the agent; updated is false when they already did
+  covered: Array<WorkflowRef & { updated: boolean }>;
+  skipped: Array<WorkflowRef & { reason: string }>;
+  failed: Array<WorkflowRef & { error: string }>;
+}
+
+export interface UninstallResult {
+  instance: string;
+  errorWorkflowId?: string;
+  removed: boolean;
+  cleared: WorkflowRef[];
+  failed: Array<WorkflowRef & { error: string }>;
+}
+
+// Create or update the error workflow that POSTs failures to agentUrl/debug, then point the
+// selected workflows at it. Workflows with another error workflow are left alone unless force is set.
+export async function installErrorWorkflow(options: {
+  instance?: string;
+  selection: WorkflowSelection;
+  agentUrl: string;
+  force?: boolean;
+}): Promise<InstallResult> {
+  const instanceName = options.instance ?? DEFAULT_INSTANCE;
+  const n8nClient = getN8nClient(instanceName);
+  const agentUrl = options.agentUrl.replace(/\/$/, '');
+
+  logger.info('Installing error workflow', { instance: instanceName, agentUrl, selection: options.selection });
+
+  let errorWorkflow = await findErrorWorkflow(n8nClient);
+  const created = !errorWorkflow;
+
+  // A fresh credential on every run, so a rotated API_BEARER_TOKEN reaches n8n.
+  // The token lives in an n8n credential rather than in the workflow's parameters.
+  const credential = await n8nClient.createCredential({
+    name: CREDENTIAL_NAME,
+    type: 'httpHeaderAuth',
+    data: { name: 'Authorization', value: `Bearer ${config.apiBearerToken}` },
+  });
+
+  try {
+    if (errorWorkflow) {
+      // Rebuilt so a changed agent URL is picked up. updateWorkflow keeps existing credential
+      // references unless a set_credential change names the new one.
+      const previousCredential = getReporterCredential(errorWorkflow);
+      const credentialChange: WorkflowChange = {
+        changeType: 'set_credential',
+        nodeName: REPORTER_NAME,
+        newValue: { credentialType: 'httpHeaderAuth', id: credential.id, name: credential.name },
+        description: `Use the current ${CREDENTIAL_NAME}`,
+      };
+      errorWorkflow = await n8nClient.updateWorkflow(
+        errorWorkflow.id,
+        { ...errorWorkflow, ...buildErrorWorkflow(agentUrl, instanceName, credential) },
+        errorWorkflow,
+        [credentialChange]
+      );
+
+      if (previousCredential) {
+        await n8nClient.deleteCredential(previousCredential.id).catch((error) => {
+          logger.warn('Could not delete previous error workflow credential', {
+            credentialId: previousCredential.id,
+            error: (error as Error).message,
+          });
+        });
+      }
+    } else {
+      errorWorkflow = await n8nClient.createWorkflow(buildErrorWorkflow(agentUrl, instanceName, credential));
+    }
+  } catch (error) {
+    await n8nClient.deleteCredential(credential.id).catch(() => undefined);
+    throw error;
+  }
+
+  const result: InstallResult = {
+    instance: instanceName,
+    errorWorkflowId: errorWorkflow.id,
+    created,
+    covered: [],
+    skipped: [],
+    failed: [],
+  };
+
+  const targets = await selectWorkflows(n8nClient, options.selection, result.failed);
+
+  for (const workflow of targets) {
+    const ref = { id: workflow.id, name: workflow.name };
+    const current = workflow.settings?.errorWorkflow;
+
+    if (workflow.id === errorWorkflow.id) {
+      result.skipped.push({ ...ref, reason: 'This is the error workflow itself' });
+    } else if (current === errorWorkflow.id) {
+      result.covered.push({ ...ref, updated: false });
+    } else if (current && !options.force) {
+      result.skipped.push({ ...ref, reason: `Already uses error workflow ${String(current)}` });
+    } else {
+      try {
+        await n8nClient.updateWorkflow(
+          workflow.id,
+          { ...workflow, settings: { ...workflow.settings, errorWorkflow: errorWorkflow.id } },
+          workflow
+        );
+        result.covered.push({ ...ref, updated: true });
+      } catch (error) {
+        result.failed.push({ ...ref, error: (error as Error).message });
+      }
+    }
+  }
+
+  logger.info('Error workflow installed', {
+    instance: instanceName,
+    errorWorkflowId: errorWorkflow.id,
+    created,
+    covered: result.covered.length,
+    skipped: result.skipped.length,
+    failed: result.failed.length,
+  });
+
+  return result;
+}
+
+// Detach every workflow from the error workflow, then delete it and its credential.
+// Both are kept when a workflow could not be detached, so it never points at a deleted workflow.
+export async function uninstallErrorWorkflow(options: { instance?: string } = {}): Promise<UninstallResult> {
+  const instanceName = options.instance ?? DEFAULT_INSTANCE;
+  const n8nClient = getN8nClient(instanceName);
+
+  logger.info('Uninstalling error workflow', { instance: instanceName });
+
+  const result: UninstallResult = { instance: instanceName, removed: false, cleared: [], failed: [] };
+
+  const errorWorkflow = await findErrorWorkflow(n8nClient);
+  if (!errorWorkflow) {
+    return result;
+  }
+  result.errorWorkflowId = errorWorkflow.id;
+
+  for (const workflow of await n8nClient.listWorkflows()) {
+    if (workflow.settings?.errorWorkflow !== errorWorkflow.id) continue;
+
+    const ref = { id: workflow.id, name: workflow.name };
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    const { errorWorkflow: _errorWorkflow, ...settings } = workflow.settings;
+    try {
+      await n8nClient.updateWorkflow(workflow.id, { ...workflow, settings }, workflow);
+      result.cleared.push(ref);
+    } catch (error) {
+      result.failed.push({ ...ref, error: (error as Error).message });
+    }
+  }
+
+  if (result.failed.length > 0) {
+    logger.warn('Error workflow kept, some workflows still use it', { instance: instanceName, failed: result.failed.length });
+    return result;
+  }
+
+  await n8nClient.deleteWorkflow(errorWorkflow.id);
+  result.removed = true;
+
+  const credential = getReporterCredential(errorWorkflow);
+  if (credential) {
+    try {
+      await n8nClient.deleteCredential(credential.id);
+    } catch (error) {
+      logger.warn('Could not delete error workflow credential', { credentialId: credential.id, error: (error as Error).message });
+    }
+  }
+
+  logger.info('Error workflow uninstalled', { instance: instanceName, cleared: result.cleared.length });
+
+  return result;
+}
+
+async function findErrorWorkflow(n8nClient: N8nClient): Promise<WorkflowData | undefined> {
+  // The name filter may match partially
+  const matches = await n8nClient.listWorkflows({ name: ERROR_WORKFLOW_NAME });
+  return matches.find((workflow) => workflow.name === ERROR_WORKFLOW_NAME);
+}
+
+function getReporterCredential(workflow: WorkflowData): { id: string; name: string } | undefined {
+  const reporter = workflow.nodes.find((node) => node.name === REPORTER_NAME);
+  const credential = reporter?.credentials?.httpHeaderAuth as { id?: string; name?: string } | undefined;
+  return credential?.id ? { id: String(credential.id), name: credential.name ?? CREDENTIAL_NAME } : undefined;
+}
+
+// Selected workflows without duplicates. Ids n8n doesn't know are reported as failed.
+async function selectWorkflows(
+  n8nClient: N8nClient,
+  selection: WorkflowSelection,
+  failed: InstallResult['failed']
+): Promise<WorkflowData[]> {
+  const selected = new Map<string, WorkflowData>();
+
+  if (selection.all) {
+    for (const workflow of await n8nClient.listWorkflows()) {
+      selected.set(workflow.id, workflow);
+    }
+    return Array.from(selected.values());
+  }
+
+  if (selection.tags && selection.tags.length > 0) {
+    for (const workflow of await n8nClient.listWorkflows({ tags: selection.tags })) {
+      selected.set(workflow.id, workflow);
+    }
+  }
+
+  for (const id of selection.workflowIds ?? []) {
+    if (selected.has(id)) continue;
+    try {
+      selected.set(id, await n8nClient.getWorkflow(id));
+    } catch (error) {
+      failed.push({ id, name: '', error: (error as Error).message });
+    }
+  }
+
+  return Array.from(selected.values());
+}
+
+// Error Trigger -> HTTP Request posting an ErrorPayload. Trigger failures carry their error
+// under trigger instead of execution.
+function buildErrorWorkflow(
+  agentUrl: string,
+  instanceName: string,
+  credential: Pick<CredentialSummary, 'id' | 'name'>
+): Omit<WorkflowData, 'id' | 'active'> {
+  const instance = instanceName === DEFAULT_INSTANCE ? '' : `\n  instance: ${JSON.stringify(instanceName)},`;
+  const body = `={{ JSON.stringify({
+  workflowId: $json.workflow.id,
+  workflowName: $json.workflow.name,
+  executionId: $json.execution?.id,
+  errorMessage: ($json.execution ?? $json.trigger).error.message,
+  errorStack: ($json.execution ?? $json.trigger).error.stack,
+  nodeName: $json.execution?.error?.node?.name ?? $json.execution?.lastNodeExecuted,
+  timestamp: $now.toISO(),${instance}
+}) }}`;
+
+  const trigger: WorkflowNode = {
+    id: uuidv4(),
+    name: TRIGGER_NAME,
+    type: 'n8n-nodes-base.errorTrigger',
+    typeVersion: 1,
+    position: [0, 0],
+    parameters: {},
+  };
+
+  const reporter: WorkflowNode = {
+    id: uuidv4(),
+    name: REPORTER_NAME,
+    type: 'n8n-nodes-base.httpRequest',
+    typeVersion: 4.2,
+    position: [NODE_SPACING, 0],
+    parameters: {
+      method: 'POST',
+      url: `${agentUrl}/debug`,
+      authentication: 'genericCredentialType',
+      genericAuthType: 'httpHeaderAuth',
+      sendBody: true,
+      specifyBody: 'json',
+      jsonBody: body,
+      options: {},
+    },
+    credentials: { httpHeaderAuth: { id: credential.id, name: credential.name } },
+  };
+
+  return {
+    name: ERROR_WORKFLOW_NAME,
+    nodes: [trigger, reporter],
+    connections: {
+      [TRIGGER_NAME]: { main: [[{ node: REPORTER_NAME, type: 'main', index: 0 }]] },
+    },
+    settings: { executionOrder: 'v1' },
+  };
+}
@@ -0,0 +1,141 @@
+import { after, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ExecutionPoller, isNewerExecution } from './executionPoller.js';
+import type { CursorStorage, PollerDependencies } from './executionPoller.js';
+import { approvalStore } from './approvalStore.js';
+import { auditLog } from './auditLog.js';
+import type { ExecutionData, N8nInstance } from '../types/index.js';
+
+class TestStorage implements CursorStorage {
+  cursors = new Map<string, string>();
+  get(instance: string, workflowId: string) {
+    return this.cursors.get(`${instance}:${workflowId}`);
+  }
+  set(instance: string, workflowId: string, executionId: string) {
+    this.cursors.set(`${instance}:${workflowId}`, executionId);
+  }
+  close() {}
+}
+
+const WORKFLOW_ID = 'wf1';
+const INSTANCE: N8nInstance = {
+  name: 'default',
+  apiUrl: 'http://n8n.test/api/v1',
+  apiKey: 'test',
+  webhookUrl: 'http://n8n.test/webhook',
+  slackChannelId: 'C1',
+  policies: [],
+  pollWorkflowIds: [WORKFLOW_ID],
+};
+
+// Failed executions with ids from..to, newest first as n8n lists them
+function failures(from: number, to: number): ExecutionData[] {
+  const executions: ExecutionData[] = [];
+  for (let id = to; id >= from; id--) {
+    executions.push({ id: String(id), status: 'error', startedAt: `2024-01-01T00:00:${id}Z` } as ExecutionData);
+  }
+  return executions;
+}
+
+describe('isNewerExecution', () => {
+  it('compares numeric ids as numbers', () => {
+    assert.equal(isNewerExecution('10', '9'), true);
+    assert.equal(isNewerExecution('9', '10'), false);
+    assert.equal(isNewerExecution('10', '10'), false);
+  });
+
+  it('falls back to string order for other ids', () => {
+    assert.equal(isNewerExecution('exec-b', 'exec-a'), true);
+    assert.equal(isNewerExecution('exec-a', 'exec-b'), false);
+  });
+});
+
+describe('ExecutionPoller', () => {
+  let storage: TestStorage;
+  let poller: ExecutionPoller;
+  let pages: ExecutionData[][];
+  let analyzed: string[];
+  let handled: Set<string>;
+  let statusCode: number;
+
+  // Serves pages in order and records which executions reached the pipeline
+  const deps: PollerDependencies = {
+    listInstances: () => [INSTANCE],
+    getN8nClient: () => ({
+      listExecutions: async (_workflowId, options = {}) => {
+        const index = options.cursor ? Number(options.cursor) : 0;
+        return { data: pages[index] ?? [], nextCursor: index + 1 < pages.length ? String(index + 1) : undefined };
+      },
+      getExecution: async (id) =>
+        ({ id, status: 'error', data: { resultData: { error: { message: 'Boom' } } } }) as ExecutionData,
+    }),
+    runDebugPipeline: async (payload) => {
+      analyzed.push(payload.executionId!);
+      return { statusCode, result: { success: statusCode < 400, message: 'Analyzed' } };
+    },
+    wasExecutionHandled: (_instance, executionId) => handled.has(executionId),
+  };
+
+  beforeEach(() => {
+    storage = new TestStorage();
+    poller = new ExecutionPoller(storage, deps);
+    analyzed = [];
+    handled = new Set();
+    statusCode = 404;
+  });
+
+  after(() => {
+    approvalStore.destroy();
+    auditLog.destroy();
+  });
+
+  it('only records where to start on the first poll', async () => {
+    pages = [failures(5, 7)];
+    await poller.poll();
+
+    assert.deepEqual(analyzed, []);
+    assert.equal(storage.get(INSTANCE.name, WORKFLOW_ID), '7');
+  });
+
+  it('pages back to the cursor and handles executions oldest first', async () => {
+    storage.set(INSTANCE.name, WORKFLOW_ID, '3');
+    pages = [failures(6, 7), failures(2, 5)];
+    await poller.poll();
+
+    assert.deepEqual(analyzed, ['4', '5', '6', '7']);
+    assert.equal(storage.get(INSTANCE.name, WORKFLOW_ID), '7');
+  });
+
+  it('leaves the rest of a large backlog for the next poll', async () => {
+    storage.set(INSTANCE.name, WORKFLOW_ID, '0');
+    pages = [failures(1, 12)];
+    await poller.poll();
+
+    assert.deepEqual(analyzed, ['1', '2', '3', '4', '5', '6', '7', '8', '9', '10']);
+    assert.equal(storage.get(INSTANCE.name, WORKFLOW_ID), '10');
+
+    analyzed = [];
+    await poller.poll();
+    assert.deepEqual(analyzed, ['11', '12']);
+  });
+
+  it('skips executions the error workflow already reported', async () => {
+    storage.set(INSTANCE.name, WORKFLOW_ID, '3');
+    pages = [failures(4, 6)];
+    handled.add('5');
+    await poller.poll();
+
+    assert.deepEqual(analyzed, ['4', '6']);
+    assert.equal(storage.get(INSTANCE.name, WORKFLOW_ID), '6');
+  });
+
+  it('keeps the cursor on an execution whose analysis failed', async () => {
+    storage.set(INSTANCE.name, WORKFLOW_ID, '3');
+    pages = [failures(2, 6)];
+    statusCode = 503;
+    await poller.poll();
+
+    assert.deepEqual(analyzed, ['4']);
+    assert.equal(storage.get(INSTANCE.name, WORKFLOW_ID), '3');
+  });
+});
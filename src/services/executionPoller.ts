@@ -0,0 +1,271 @@
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import type { Database as DatabaseType, Statement } from 'better-sqlite3';
+import { config } from '../utils/config.js';
+import { logger } from '../utils/logger.js';
+import { DEFAULT_INSTANCE, getN8nClient, listInstances } from './instances.js';
+import { runDebugPipeline } from './debugPipeline.js';
+import { wasExecutionHandled } from './handledExecutions.js';
+import type { N8nClient } from './n8n.js';
+import type { Logger } from 'winston';
+import type { PipelineOutcome } from './debugPipeline.js';
+import type { ErrorPayload, ExecutionData, N8nInstance } from '../types/index.js';
+
+// Failed executions analyzed per workflow and poll; the rest wait for the next poll
+const MAX_EXECUTIONS_PER_POLL = 10;
+const PAGE_SIZE = 250;
+// Pages read while catching up. Past this, the oldest failures since the cursor are skipped (and logged)
+// so a workflow that failed tens of thousands of times can't stall every poll.
+const MAX_PAGES = 40;
+
+// Newest execution already looked at, per instance and workflow
+export interface CursorStorage {
+  get(instance: string, workflowId: string): string | undefined;
+  set(instance: string, workflowId: string, executionId: string): void;
+  close(): void;
+}
+
+class MemoryCursorStorage implements CursorStorage {
+  private cursors = new Map<string, string>();
+
+  get(instance: string, workflowId: string): string | undefined {
+    return this.cursors.get(`${instance}:${workflowId}`);
+  }
+
+  set(instance: string, workflowId: string, executionId: string): void {
+    this.cursors.set(`${instance}:${workflowId}`, executionId);
+  }
+
+  close(): void {
+    this.cursors.clear();
+  }
+}
+
+interface CursorRow {
+  last_execution_id: string;
+}
+
+class SqliteCursorStorage implements CursorStorage {
+  private db: DatabaseType;
+  private statements: { get: Statement; upsert: Statement };
+
+  constructor(dbPath: string) {
+    if (dbPath !== ':memory:') {
+      fs.mkdirSync(path.dirname(dbPath), { recursive: true });
+    }
+
+    this.db = new Database(dbPath);
+    this.db.pragma('journal_mode = WAL');
+
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS poll_cursors (
+        instance TEXT NOT NULL,
+        workflow_id TEXT NOT NULL,
+        last_execution_id TEXT NOT NULL,
+        updated_at INTEGER NOT NULL,
+        PRIMARY KEY (instance, workflow_id)
+      );
+    `);
+
+    this.statements = {
+      get: this.db.prepare('SELECT last_execution_id FROM poll_cursors WHERE instance = ? AND workflow_id = ?'),
+      upsert: this.db.prepare(`
+        INSERT INTO poll_cursors (instance, workflow_id, last_execution_id, updated_at)
+        VALUES (@instance, @workflowId, @executionId, @updatedAt)
+        ON CONFLICT(instance, workflow_id) DO UPDATE SET
+          last_execution_id = excluded.last_execution_id,
+          updated_at = excluded.updated_at
+      `),
+    };
+  }
+
+  get(instance: string, workflowId: string): string | undefined {
+    const row = this.statements.get.get(instance, workflowId) as CursorRow | undefined;
+    return row?.last_execution_id;
+  }
+
+  set(instance: string, workflowId: string, executionId: string): void {
+    this.statements.upsert.run({ instance, workflowId, executionId, updatedAt: Date.now() });
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
+
+// What the poller needs from the rest of the agent
+export interface PollerDependencies {
+  listInstances(): N8nInstance[];
+  getN8nClient(instance: string): Pick<N8nClient, 'listExecutions' | 'getExecution'>;
+  runDebugPipeline(payload: ErrorPayload, log: Logger): Promise<PipelineOutcome>;
+  wasExecutionHandled(instance: string | undefined, executionId: string): boolean;
+}
+
+// Finds failed executions of opted-in workflows and feeds them through the same pipeline as POST /debug,
+// for workflows that have no error workflow configured
+export class ExecutionPoller {
+  private storage: CursorStorage;
+  private deps: PollerDependencies;
+  private timer: NodeJS.Timeout | null = null;
+  private polling = false;
+
+  constructor(storage: CursorStorage, deps: PollerDependencies) {
+    this.storage = storage;
+    this.deps = deps;
+  }
+
+  start(): void {
+    const targets = this.deps.listInstances().filter((instance) => instance.pollWorkflowIds.length > 0);
+    if (config.pollIntervalMs <= 0 || targets.length === 0) {
+      return;
+    }
+
+    logger.info('Polling for failed executions', {
+      intervalMs: config.pollIntervalMs,
+      workflows: Object.fromEntries(targets.map((instance) => [instance.name, instance.pollWorkflowIds])),
+    });
+
+    this.timer = setInterval(() => {
+      void this.poll();
+    }, config.pollIntervalMs);
+    void this.poll();
+  }
+
+  async poll(): Promise<void> {
+    // A slow poll must not overlap the next one
+    if (this.polling) return;
+    this.polling = true;
+
+    try {
+      for (const instance of this.deps.listInstances()) {
+        for (const workflowId of instance.pollWorkflowIds) {
+          try {
+            await this.pollWorkflow(instance, workflowId);
+          } catch (error) {
+            logger.warn('Polling workflow failed', {
+              instance: instance.name,
+              workflowId,
+              error: (error as Error).message,
+            });
+          }
+        }
+      }
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  private async pollWorkflow(instance: N8nInstance, workflowId: string): Promise<void> {
+    const n8nClient = this.deps.getN8nClient(instance.name);
+    const cursor = this.storage.get(instance.name, workflowId);
+
+    // Failed executions newer than the cursor, newest first as n8n lists them
+    const newer: ExecutionData[] = [];
+    let pageCursor: string | undefined;
+    let pages = 0;
+    let reachedCursor = false;
+
+    do {
+      const page = await n8nClient.listExecutions(workflowId, {
+        status: 'error',
+        limit: cursor ? PAGE_SIZE : 1,
+        cursor: pageCursor,
+      });
+      for (const execution of page.data) {
+        if (cursor && !isNewerExecution(String(execution.id), cursor)) {
+          reachedCursor = true;
+          break;
+        }
+        newer.push(execution);
+      }
+      pageCursor = page.nextCursor;
+      pages++;
+    } while (cursor && !reachedCursor && pageCursor && pages < MAX_PAGES);
+
+    // The first poll only marks where to start, so enabling polling doesn't replay old failures
+    if (!cursor) {
+      const start = newer.length > 0 ? String(newer[0].id) : '0';
+      this.storage.set(instance.name, workflowId, start);
+      logger.info('Polling cursor initialized', { instance: instance.name, workflowId, cursor: start });
+      return;
+    }
+
+    if (!reachedCursor && pageCursor) {
+      logger.warn('Too many failed executions since the last poll, the oldest are skipped', {
+        instance: instance.name,
+        workflowId,
+        cursor,
+        resumingAfter: String(newer[newer.length - 1].id),
+        fetched: newer.length,
+      });
+    }
+
+    // Oldest first, so the cursor only moves past executions that were handled
+    const batch = newer.reverse().slice(0, MAX_EXECUTIONS_PER_POLL);
+    const payloadInstance = instance.name === DEFAULT_INSTANCE ? undefined : instance.name;
+
+    for (const summary of batch) {
+      const executionId = String(summary.id);
+
+      if (this.deps.wasExecutionHandled(payloadInstance, executionId)) {
+        logger.debug('Execution already reported by the error workflow', { instance: instance.name, executionId });
+      } else {
+        const execution = await n8nClient.getExecution(executionId, true);
+        const payload: ErrorPayload = {
+          workflowId,
+          workflowName: execution.workflowData?.name,
+          executionId,
+          errorMessage: execution.data?.resultData?.error?.message || 'Execution failed',
+          timestamp: execution.stoppedAt ?? execution.startedAt,
+          instance: payloadInstance,
+        };
+
+        const log = logger.child({ poller: true, instance: instance.name, executionId });
+        log.info('Failed execution found by polling', { workflowId });
+        const outcome = await this.deps.runDebugPipeline(payload, log);
+
+        // n8n, Claude or the agent itself failed: keep the cursor here and try again on the next poll
+        if (outcome.statusCode >= 500) {
+          log.warn('Analysis failed, retrying on the next poll', { workflowId, error: outcome.result.error });
+          return;
+        }
+      }
+
+      this.storage.set(instance.name, workflowId, executionId);
+    }
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.storage.close();
+  }
+}
+
+// n8n execution ids are increasing integers, kept as strings by the API
+export function isNewerExecution(executionId: string, cursor: string): boolean {
+  const id = Number(executionId);
+  const last = Number(cursor);
+  if (Number.isFinite(id) && Number.isFinite(last)) {
+    return id > last;
+  }
+  return executionId > cursor;
+}
+
+function createStorage(): CursorStorage {
+  if (config.approvalStoreBackend === 'memory') {
+    return new MemoryCursorStorage();
+  }
+  return new SqliteCursorStorage(config.approvalDbPath);
+}
+
+// Singleton instance
+export const executionPoller = new ExecutionPoller(createStorage(), {
+  listInstances,
+  getN8nClient,
+  runDebugPipeline,
+  wasExecutionHandled,
+});
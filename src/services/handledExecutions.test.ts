@@ -0,0 +1,29 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { markExecutionHandled, wasExecutionHandled } from './handledExecutions.js';
+
+describe('handled executions', () => {
+  it('treats an unset instance and "default" as the same instance', () => {
+    markExecutionHandled('default', '101');
+    assert.equal(wasExecutionHandled(undefined, '101'), true);
+
+    markExecutionHandled(undefined, '102');
+    assert.equal(wasExecutionHandled('default', '102'), true);
+  });
+
+  it('keeps executions of other instances apart', () => {
+    markExecutionHandled('staging', '201');
+    assert.equal(wasExecutionHandled('staging', '201'), true);
+    assert.equal(wasExecutionHandled(undefined, '201'), false);
+    assert.equal(wasExecutionHandled('prod', '201'), false);
+  });
+
+  it('forgets the oldest executions past the limit', () => {
+    markExecutionHandled('limit', 'first');
+    for (let id = 0; id < 1000; id++) {
+      markExecutionHandled('limit', String(id));
+    }
+    assert.equal(wasExecutionHandled('limit', 'first'), false);
+    assert.equal(wasExecutionHandled('limit', '999'), true);
+  });
+});
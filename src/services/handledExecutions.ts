@@ -0,0 +1,22 @@
+import { DEFAULT_INSTANCE } from './instances.js';
+
+// Executions that already went through the pipeline, so polling skips those the error workflow reported
+const MAX_HANDLED_EXECUTIONS = 1000;
+const handledExecutions = new Set<string>();
+
+// The poller leaves instance unset for the default instance while POST /debug may name it
+function executionKey(instance: string | undefined, executionId: string): string {
+  return `${instance ?? DEFAULT_INSTANCE}:${executionId}`;
+}
+
+export function wasExecutionHandled(instance: string | undefined, executionId: string): boolean {
+  return handledExecutions.has(executionKey(instance, executionId));
+}
+
+export function markExecutionHandled(instance: string | undefined, executionId: string): void {
+  handledExecutions.add(executionKey(instance, executionId));
+  // Sets iterate in insertion order, so the first entry is the oldest
+  if (handledExecutions.size > MAX_HANDLED_EXECUTIONS) {
+    handledExecutions.delete(handledExecutions.values().next().value!);
+  }
+}
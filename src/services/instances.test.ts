@@ -0,0 +1,89 @@
+import { after, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { spawnSync } from 'node:child_process';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+// The instance list is read once at import and a bad file stops the process,
+// so every case loads the module in a fresh process with its own instances file
+const workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'instances-test-'));
+
+function loadInstances(entries: unknown, env: Record<string, string> = {}) {
+  const file = path.join(workDir, 'instances.json');
+  fs.writeFileSync(file, JSON.stringify(entries));
+
+  const url = new URL('./instances.js', import.meta.url).href;
+  const script = `
+    const { listInstances, getN8nClient } = await import(${JSON.stringify(url)});
+    console.log(JSON.stringify({ instances: listInstances(), cached: getN8nClient('prod') === getN8nClient('prod') }));
+  `;
+  const result = spawnSync(process.execPath, ['--input-type=module', '-e', script], {
+    cwd: workDir,
+    env: {
+      PATH: process.env.PATH ?? '',
+      LOG_LEVEL: 'error',
+      N8N_API_URL: 'http://n8n.test/api/v1',
+      N8N_API_KEY: 'default-key',
+      SLACK_CHANNEL_ID: 'C-default',
+      N8N_INSTANCES_FILE: file,
+      ...env,
+    },
+    encoding: 'utf8',
+    timeout: 30_000,
+  });
+
+  return { status: result.status, output: result.status === 0 ? JSON.parse(result.stdout) : undefined, log: result.stdout };
+}
+
+describe('instances', () => {
+  after(() => {
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  it('adds the instances file to the default instance', () => {
+    const { status, output } = loadInstances(
+      [{ name: 'prod', apiUrl: 'https://prod.test/api/v1', apiKeyEnv: 'PROD_KEY', pollWorkflowIds: [12] }],
+      { PROD_KEY: 'prod-key' }
+    );
+
+    assert.equal(status, 0);
+    assert.deepEqual(output.instances, [
+      {
+        name: 'default',
+        apiUrl: 'http://n8n.test/api/v1',
+        apiKey: 'default-key',
+        webhookUrl: 'http://n8n.test/webhook',
+        slackChannelId: 'C-default',
+        policies: [],
+        pollWorkflowIds: [],
+      },
+      {
+        name: 'prod',
+        apiUrl: 'https://prod.test/api/v1',
+        apiKey: 'prod-key',
+        webhookUrl: 'https://prod.test/webhook',
+        slackChannelId: 'C-default',
+        policies: [],
+        pollWorkflowIds: ['12'],
+      },
+    ]);
+    assert.equal(output.cached, true);
+  });
+
+  it('refuses to start on an invalid instances file', () => {
+    const prod = { name: 'prod', apiUrl: 'https://prod.test/api/v1', apiKey: 'prod-key' };
+
+    for (const [entries, reason] of [
+      [[{ ...prod, name: 'default' }], /reserved/],
+      [[prod, prod], /defined more than once/],
+      [[{ ...prod, apiUrl: undefined }], /apiUrl is required/],
+      [[{ ...prod, apiKey: undefined, apiKeyEnv: 'PROD_KEY' }], /PROD_KEY is not set/],
+      [{ prod }, /JSON array/],
+    ] as const) {
+      const { status, log } = loadInstances(entries);
+      assert.equal(status, 1, `expected ${reason} to stop the process`);
+      assert.match(log, reason);
+    }
+  });
+});
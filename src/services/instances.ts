@@ -0,0 +1,123 @@
+import fs from 'fs';
+import { config, deriveWebhookUrl } from '../utils/config.js';
+import { logger } from '../utils/logger.js';
+import { N8nClient } from './n8n.js';
+import type { ApprovalPolicy, N8nInstance } from '../types/index.js';
+
+// The instance configured by N8N_API_URL / N8N_API_KEY, used when a payload or approval names none
+export const DEFAULT_INSTANCE = 'default';
+
+// An entry of N8N_INSTANCES_FILE. The key is read from the environment variable named by apiKeyEnv,
+// so the file itself can be committed.
+interface InstanceEntry {
+  name?: string;
+  apiUrl?: string;
+  apiKeyEnv?: string;
+  apiKey?: string;
+  webhookUrl?: string;
+  slackChannelId?: string;
+  policies?: ApprovalPolicy[];
+  pollWorkflowIds?: string[];
+}
+
+function loadInstances(): Map<string, N8nInstance> {
+  const instances = new Map<string, N8nInstance>([
+    [
+      DEFAULT_INSTANCE,
+      {
+        name: DEFAULT_INSTANCE,
+        apiUrl: config.n8nApiUrl,
+        apiKey: config.n8nApiKey,
+        webhookUrl: config.n8nWebhookUrl,
+        slackChannelId: config.slackChannelId,
+        policies: [],
+        pollWorkflowIds: config.pollWorkflowIds,
+      },
+    ],
+  ]);
+
+  if (!config.n8nInstancesFile) {
+    return instances;
+  }
+
+  try {
+    const entries = JSON.parse(fs.readFileSync(config.n8nInstancesFile, 'utf-8')) as InstanceEntry[];
+    if (!Array.isArray(entries)) {
+      throw new Error('Instances file must contain a JSON array');
+    }
+
+    for (const entry of entries) {
+      if (!entry.name) {
+        throw new Error('Every instance needs a name');
+      }
+      if (instances.has(entry.name)) {
+        throw new Error(`Instance ${entry.name} is defined more than once ("${DEFAULT_INSTANCE}" is reserved)`);
+      }
+      if (!entry.apiUrl) {
+        throw new Error(`Instance ${entry.name}: apiUrl is required`);
+      }
+
+      const apiKey = entry.apiKeyEnv ? process.env[entry.apiKeyEnv] : entry.apiKey;
+      if (!apiKey) {
+        throw new Error(
+          `Instance ${entry.name}: ${entry.apiKeyEnv ? `environment variable ${entry.apiKeyEnv} is not set` : 'apiKeyEnv is required'}`
+        );
+      }
+      if (entry.policies !== undefined && !Array.isArray(entry.policies)) {
+        throw new Error(`Instance ${entry.name}: policies must be an array`);
+      }
+      if (entry.pollWorkflowIds !== undefined && !Array.isArray(entry.pollWorkflowIds)) {
+        throw new Error(`Instance ${entry.name}: pollWorkflowIds must be an array`);
+      }
+
+      instances.set(entry.name, {
+        name: entry.name,
+        apiUrl: entry.apiUrl,
+        apiKey,
+        webhookUrl: entry.webhookUrl ?? deriveWebhookUrl(entry.apiUrl),
+        slackChannelId: entry.slackChannelId ?? config.slackChannelId,
+        policies: entry.policies ?? [],
+        pollWorkflowIds: (entry.pollWorkflowIds ?? []).map(String),
+      });
+    }
+
+    logger.info('n8n instances loaded', { names: Array.from(instances.keys()) });
+    return instances;
+  } catch (error) {
+    // Approvals could otherwise be routed to, and applied on, the wrong server
+    logger.error('Failed to load n8n instances', {
+      file: config.n8nInstancesFile,
+      error: (error as Error).message,
+    });
+    process.exit(1);
+  }
+}
+
+const instances = loadInstances();
+const clients = new Map<string, N8nClient>();
+
+export function hasInstance(name: string): boolean {
+  return instances.has(name);
+}
+
+export function listInstances(): N8nInstance[] {
+  return Array.from(instances.values());
+}
+
+export function getInstance(name: string = DEFAULT_INSTANCE): N8nInstance {
+  const instance = instances.get(name);
+  if (!instance) {
+    throw new Error(`Unknown n8n instance: ${name}`);
+  }
+  return instance;
+}
+
+// One client per instance, created on first use
+export function getN8nClient(name: string = DEFAULT_INSTANCE): N8nClient {
+  let client = clients.get(name);
+  if (!client) {
+    client = new N8nClient(getInstance(name));
+    clients.set(name, client);
+  }
+  return client;
+}
@@ -0,0 +1,140 @@
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { N8nClient } from './n8n.js';
+import type { WorkflowChange, WorkflowData } from '../types/index.js';
+
+describe('N8nClient.runWorkflow', () => {
+  let server: http.Server;
+  let client: N8nClient;
+  let requests: string[];
+  // How the webhook answers: an error status, or no response at all
+  let webhook: 'fail' | 'drop';
+
+  before(async () => {
+    server = http.createServer((req, res) => {
+      requests.push(`${req.method} ${req.url}`);
+
+      if (req.url?.startsWith('/webhook/')) {
+        if (webhook === 'drop') {
+          req.socket.destroy();
+        } else {
+          res.writeHead(500).end();
+        }
+        return;
+      }
+
+      res.setHeader('Content-Type', 'application/json');
+      if (req.url?.startsWith('/api/v1/executions')) {
+        res.end(JSON.stringify({ data: [{ id: '1', status: 'error', stoppedAt: '2024-01-01T00:00:00Z' }] }));
+      } else {
+        res.end(JSON.stringify({ id: 'wf1', active: req.url?.endsWith('/activate') }));
+      }
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+
+    const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    client = new N8nClient({ name: 'test', apiUrl: `${baseUrl}/api/v1`, apiKey: 'test', webhookUrl: `${baseUrl}/webhook` });
+  });
+
+  beforeEach(() => {
+    requests = [];
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  it('activates through the n8n API, runs the webhook and deactivates again', async () => {
+    webhook = 'fail';
+    const execution = await client.runWorkflow('wf1', 'sandbox-path', { test: true });
+
+    assert.equal(execution.id, '1');
+    assert.deepEqual(requests.slice(0, 3), [
+      'POST /api/v1/workflows/wf1/activate',
+      'POST /webhook/sandbox-path',
+      'POST /api/v1/workflows/wf1/deactivate',
+    ]);
+  });
+
+  it('deactivates when the webhook never answers', async () => {
+    webhook = 'drop';
+    await assert.rejects(client.runWorkflow('wf1', 'sandbox-path', {}));
+
+    assert.deepEqual(requests, [
+      'POST /api/v1/workflows/wf1/activate',
+      'POST /webhook/sandbox-path',
+      'POST /api/v1/workflows/wf1/deactivate',
+    ]);
+  });
+});
+
+describe('N8nClient.updateWorkflow', () => {
+  let server: http.Server;
+  let client: N8nClient;
+  let sent: WorkflowData;
+
+  before(async () => {
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => {
+        sent = JSON.parse(body);
+        res.setHeader('Content-Type', 'application/json');
+        res.end(body);
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+
+    const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    client = new N8nClient({ name: 'test', apiUrl: `${baseUrl}/api/v1`, apiKey: 'test', webhookUrl: `${baseUrl}/webhook` });
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  const original: WorkflowData = {
+    id: 'wf1',
+    name: 'Test',
+    active: false,
+    nodes: [
+      {
+        id: 'n1',
+        name: 'Fetch',
+        type: 'n8n-nodes-base.httpRequest',
+        typeVersion: 1,
+        position: [0, 0],
+        parameters: {},
+        credentials: { httpHeaderAuth: { id: '1', name: 'Old' } },
+      },
+    ],
+    connections: {},
+  };
+  const patched: WorkflowData = {
+    ...original,
+    nodes: [{ ...original.nodes[0], credentials: { httpHeaderAuth: { id: '2', name: 'New', data: 'secret' } } }],
+  };
+  const change: WorkflowChange = {
+    changeType: 'set_credential',
+    nodeName: 'Fetch',
+    newValue: { credentialType: 'httpHeaderAuth', id: '2', name: 'New' },
+    description: 'Use New',
+  };
+
+  it('keeps the original credential references by default', async () => {
+    await client.updateWorkflow('wf1', patched, original);
+    assert.deepEqual(sent.nodes[0].credentials, { httpHeaderAuth: { id: '1', name: 'Old' } });
+  });
+
+  it('sends the reference a set_credential change put on the node', async () => {
+    await client.updateWorkflow('wf1', patched, original, [change]);
+    assert.deepEqual(sent.nodes[0].credentials, { httpHeaderAuth: { id: '2', name: 'New' } });
+  });
+
+  it('ignores a set_credential change the node does not carry', async () => {
+    await client.updateWorkflow('wf1', original, original, [change]);
+    assert.deepEqual(sent.nodes[0].credentials, { httpHeaderAuth: { id: '1', name: 'Old' } });
+  });
+});
@@ -1,18 +1,58 @@
 import axios, { AxiosInstance, AxiosError } from 'axios';
-import { config } from '../utils/config.js';
 import { logger } from '../utils/logger.js';
-import type { WorkflowData, ExecutionData } from '../types/index.js';
+import { CircuitBreaker, type CircuitStatus } from '../utils/circuitBreaker.js';
+import type {
+  WorkflowData,
+  ExecutionData,
+  WorkflowChange,
+  CredentialChange,
+  CredentialSummary,
+  N8nInstance,
+} from '../types/index.js';
+
+// Status filters accepted by GET /executions
+export type ExecutionStatusFilter = 'error' | 'success' | 'waiting';
+
+// How long a sandbox run may take before its webhook call is abandoned
+const RUN_TIMEOUT_MS = 60000;
+
+// Longest wait between retries, and the longest Retry-After worth waiting for
+const MAX_BACKOFF_MS = 10000;
+const MAX_RETRY_AFTER_MS = 30000;
+
+// Failed calls in a row after which n8n is treated as down, and for how long
+const CIRCUIT_FAILURE_THRESHOLD = 5;
+const CIRCUIT_COOLDOWN_MS = 30000;
+
+// Retry-After is either a number of seconds or an HTTP date
+function parseRetryAfter(value: unknown): number | undefined {
+  if (typeof value !== 'string' || value.trim() === '') return undefined;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
 
 export class N8nClient {
   private client: AxiosInstance;
   private maxRetries = 3;
   private retryDelay = 1000;
+  private breaker: CircuitBreaker;
+
+  constructor(private instance: Pick<N8nInstance, 'name' | 'apiUrl' | 'apiKey' | 'webhookUrl'>) {
+    this.breaker = new CircuitBreaker(`n8n instance ${instance.name}`, {
+      failureThreshold: CIRCUIT_FAILURE_THRESHOLD,
+      cooldownMs: CIRCUIT_COOLDOWN_MS,
+    });
 
-  constructor() {
     this.client = axios.create({
-      baseURL: config.n8nApiUrl,
+      baseURL: instance.apiUrl,
       headers: {
-        'X-N8N-API-KEY': config.n8nApiKey,
+        'X-N8N-API-KEY': instance.apiKey,
         'Content-Type': 'application/json',
       },
       timeout: 30000,
@@ -23,6 +63,7 @@ export class N8nClient {
       (response) => response,
       (error: AxiosError) => {
         logger.error('n8n API error', {
+          instance: this.instance.name,
           status: error.response?.status,
           message: error.message,
           url: error.config?.url,
@@ -37,29 +78,69 @@ export class N8nClient {
     let lastError: Error | undefined;
 
     for (let attempt = 1; attempt <= this.maxRetries; attempt++) {
+      this.breaker.checkAvailable();
+
       try {
-        return await operation();
+        const result = await operation();
+        this.breaker.recordSuccess();
+        return result;
       } catch (error) {
         lastError = error as Error;
-        const axiosError = error as AxiosError;
+        const status = (error as AxiosError).response?.status;
 
-        // Don't retry on 4xx errors (client errors)
-        if (axiosError.response?.status && axiosError.response.status >= 400 && axiosError.response.status < 500) {
+        // Only a missing response or a 5xx means n8n itself is in trouble
+        if (status === undefined || status >= 500) {
+          this.breaker.recordFailure(lastError);
+        } else {
+          this.breaker.recordSuccess();
+        }
+
+        // Client errors won't succeed on retry, except rate limiting
+        if (status !== undefined && status >= 400 && status < 500 && status !== 429) {
           throw error;
         }
 
-        if (attempt < this.maxRetries) {
-          logger.warn(`Retrying n8n API call (attempt ${attempt}/${this.maxRetries})`, {
-            error: lastError.message,
+        if (attempt === this.maxRetries) break;
+
+        const delay = this.getRetryDelay(error as AxiosError, attempt);
+        if (delay === undefined) {
+          logger.warn('n8n asked to retry later than allowed, giving up', {
+            instance: this.instance.name,
+            retryAfter: (error as AxiosError).response?.headers?.['retry-after'],
           });
-          await this.sleep(this.retryDelay * attempt);
+          break;
         }
+
+        logger.warn(`Retrying n8n API call (attempt ${attempt}/${this.maxRetries})`, {
+          instance: this.instance.name,
+          error: lastError.message,
+          status,
+          delayMs: delay,
+        });
+        await this.sleep(delay);
       }
     }
 
     throw lastError;
   }
 
+  // Retry-After when n8n sends one (429, 503), otherwise exponential backoff with jitter.
+  // Undefined when Retry-After asks for a longer wait than a request should block for.
+  private getRetryDelay(error: AxiosError, attempt: number): number | undefined {
+    const retryAfter = parseRetryAfter(error.response?.headers?.['retry-after']);
+    if (retryAfter !== undefined) {
+      return retryAfter <= MAX_RETRY_AFTER_MS ? retryAfter : undefined;
+    }
+
+    const backoff = Math.min(this.retryDelay * 2 ** (attempt - 1), MAX_BACKOFF_MS);
+    // Equal jitter: half fixed, half random, so clients that failed together don't retry together
+    return Math.round(backoff / 2 + Math.random() * (backoff / 2));
+  }
+
+  getCircuitStatus(): CircuitStatus {
+    return this.breaker.getStatus();
+  }
+
   private sleep(ms: number): Promise<void> {
     return new Promise((resolve) => setTimeout(resolve, ms));
   }
@@ -73,7 +154,36 @@ export class N8nClient {
     });
   }
 
-  async updateWorkflow(id: string, data: Partial<WorkflowData>, originalWorkflow?: WorkflowData): Promise<WorkflowData> {
+  // All workflows matching the filter, following the cursor across pages.
+  // tags matches workflows carrying any of the tag names.
+  async listWorkflows(filter: { tags?: string[]; name?: string } = {}): Promise<WorkflowData[]> {
+    logger.info('Listing workflows', filter);
+
+    const workflows: WorkflowData[] = [];
+    let cursor: string | undefined;
+
+    do {
+      const page = await this.withRetry(async () => {
+        const response = await this.client.get<{ data: WorkflowData[]; nextCursor?: string | null }>('/workflows', {
+          params: { tags: filter.tags?.join(','), name: filter.name, limit: 100, cursor },
+        });
+        return response.data;
+      });
+
+      workflows.push(...page.data);
+      cursor = page.nextCursor ?? undefined;
+    } while (cursor);
+
+    return workflows;
+  }
+
+  // set_credential changes are the only way a node's credentials can differ from originalWorkflow
+  async updateWorkflow(
+    id: string,
+    data: Partial<WorkflowData>,
+    originalWorkflow?: WorkflowData,
+    credentialChanges: WorkflowChange[] = []
+  ): Promise<WorkflowData> {
     logger.info('Updating workflow', { workflowId: id });
 
     // n8n API expects only these fields, without 'id' in body
@@ -89,9 +199,23 @@ export class N8nClient {
       // eslint-disable-next-line @typescript-eslint/no-unused-vars
       const { credentials: _creds, ...nodeWithoutCreds } = node;
 
-      // If original had credentials, keep the reference
-      if (originalNode?.credentials) {
-        return { ...nodeWithoutCreds, credentials: originalNode.credentials };
+      const credentials: Record<string, unknown> = { ...(originalNode?.credentials ?? {}) };
+
+      // Reassignments only take effect when the patched node actually carries them,
+      // and only as an { id, name } reference
+      for (const change of credentialChanges) {
+        if (change.changeType !== 'set_credential' || change.nodeName !== node.name) continue;
+        const { credentialType, id: credentialId } = change.newValue as CredentialChange;
+        const patched = node.credentials?.[credentialType] as { id?: string; name?: string } | undefined;
+        if (patched?.id === String(credentialId)) {
+          credentials[credentialType] = { id: patched.id, name: patched.name };
+          logger.info('Reassigning node credential', { workflowId: id, node: node.name, credentialType, credentialId });
+        }
+      }
+
+      // If the node has credentials, keep the reference
+      if (Object.keys(credentials).length > 0) {
+        return { ...nodeWithoutCreds, credentials };
       }
 
       return nodeWithoutCreds;
@@ -112,20 +236,158 @@ export class N8nClient {
     });
   }
 
-  async getExecution(id: string): Promise<ExecutionData> {
-    logger.info('Fetching execution', { executionId: id });
+  // Credential metadata only. The fields are picked explicitly so secret data can never leak through
+  async listCredentials(): Promise<CredentialSummary[]> {
+    logger.info('Listing credentials');
+
+    const credentials: CredentialSummary[] = [];
+    let cursor: string | undefined;
+
+    do {
+      const page = await this.withRetry(async () => {
+        const response = await this.client.get<{ data: CredentialSummary[]; nextCursor?: string | null }>('/credentials', {
+          params: { limit: 100, cursor },
+        });
+        return response.data;
+      });
+
+      for (const credential of page.data) {
+        credentials.push({ id: String(credential.id), name: credential.name, type: credential.type });
+      }
+      cursor = page.nextCursor ?? undefined;
+    } while (cursor);
+
+    return credentials;
+  }
+
+  // data holds the secret fields and is write-only: n8n never returns it
+  async createCredential(credential: { name: string; type: string; data: Record<string, unknown> }): Promise<CredentialSummary> {
+    logger.info('Creating credential', { name: credential.name, type: credential.type });
 
     return this.withRetry(async () => {
-      const response = await this.client.get<ExecutionData>(`/executions/${id}`);
+      const response = await this.client.post<CredentialSummary>('/credentials', credential);
+      return { id: String(response.data.id), name: response.data.name, type: response.data.type };
+    });
+  }
+
+  async deleteCredential(id: string): Promise<void> {
+    logger.info('Deleting credential', { credentialId: id });
+
+    await this.withRetry(async () => {
+      await this.client.delete(`/credentials/${id}`);
+    });
+  }
+
+  // includeData adds the run data: every node's input and output items
+  async getExecution(id: string, includeData = false): Promise<ExecutionData> {
+    logger.info('Fetching execution', { executionId: id, includeData });
+
+    return this.withRetry(async () => {
+      const response = await this.client.get<ExecutionData>(`/executions/${id}`, { params: { includeData } });
       return response.data;
     });
   }
 
+  // One page of a workflow's executions, newest first
+  async listExecutions(
+    workflowId: string,
+    options: { status?: ExecutionStatusFilter; limit?: number; cursor?: string; includeData?: boolean } = {}
+  ): Promise<{ data: ExecutionData[]; nextCursor?: string }> {
+    logger.debug('Listing executions', { workflowId, ...options });
+
+    return this.withRetry(async () => {
+      const response = await this.client.get<{ data: ExecutionData[]; nextCursor?: string | null }>('/executions', {
+        params: { workflowId, ...options },
+      });
+      return { data: response.data.data, nextCursor: response.data.nextCursor ?? undefined };
+    });
+  }
+
+  // Up to count most recent executions, following the cursor across pages
+  async getRecentExecutions(workflowId: string, count: number, status?: ExecutionStatusFilter): Promise<ExecutionData[]> {
+    logger.info('Fetching recent executions', { workflowId, count, status });
+
+    const executions: ExecutionData[] = [];
+    let cursor: string | undefined;
+
+    do {
+      const page = await this.listExecutions(workflowId, {
+        status,
+        cursor,
+        limit: Math.min(count - executions.length, 250),
+      });
+      executions.push(...page.data);
+      cursor = page.nextCursor;
+    } while (cursor && executions.length < count);
+
+    return executions.slice(0, count);
+  }
+
+  async createWorkflow(data: Omit<WorkflowData, 'id' | 'active'>): Promise<WorkflowData> {
+    logger.info('Creating workflow', { name: data.name });
+
+    const payload = {
+      name: data.name,
+      nodes: data.nodes,
+      connections: data.connections,
+      settings: data.settings ?? {},
+    };
+
+    return this.withRetry(async () => {
+      const response = await this.client.post<WorkflowData>('/workflows', payload);
+      return response.data;
+    });
+  }
+
+  async deleteWorkflow(id: string): Promise<void> {
+    logger.info('Deleting workflow', { workflowId: id });
+
+    await this.withRetry(async () => {
+      await this.client.delete(`/workflows/${id}`);
+    });
+  }
+
+  // The public API cannot start executions, so the workflow must be triggered by a webhook
+  // node listening on webhookPath. The workflow is active only while the webhook is called:
+  // it is deactivated again before returning the resulting execution with its run data.
+  async runWorkflow(id: string, webhookPath: string, body: unknown): Promise<ExecutionData> {
+    logger.info('Running workflow', { workflowId: id });
+
+    await this.activateWorkflow(id);
+
+    try {
+      try {
+        await axios.post(`${this.instance.webhookUrl}/${webhookPath}`, body, { timeout: RUN_TIMEOUT_MS });
+      } catch (error) {
+        // A failing run answers with an error status; only a missing response means it never ran
+        if (!(error as AxiosError).response) {
+          throw error;
+        }
+      }
+    } finally {
+      await this.deactivateWorkflow(id).catch((error) => {
+        logger.error('Failed to deactivate workflow after run', { workflowId: id, error: (error as Error).message });
+      });
+    }
+
+    // The execution may be saved shortly after the webhook responds
+    for (let attempt = 1; attempt <= this.maxRetries; attempt++) {
+      const { data: executions } = await this.listExecutions(id, { includeData: true, limit: 1 });
+
+      if (executions.length > 0 && executions[0].stoppedAt) {
+        return executions[0];
+      }
+      await this.sleep(this.retryDelay * attempt);
+    }
+
+    throw new Error(`No finished execution found for workflow ${id}`);
+  }
+
   async activateWorkflow(id: string): Promise<WorkflowData> {
     logger.info('Activating workflow', { workflowId: id });
 
     return this.withRetry(async () => {
-      const response = await this.client.patch<WorkflowData>(`/workflows/${id}`, { active: true });
+      const response = await this.client.post<WorkflowData>(`/workflows/${id}/activate`);
       return response.data;
     });
   }
@@ -134,11 +396,8 @@ export class N8nClient {
     logger.info('Deactivating workflow', { workflowId: id });
 
     return this.withRetry(async () => {
-      const response = await this.client.patch<WorkflowData>(`/workflows/${id}`, { active: false });
+      const response = await this.client.post<WorkflowData>(`/workflows/${id}/deactivate`);
       return response.data;
     });
   }
 }
-
-// Singleton instance
-export const n8nClient = new N8nClient();
@@ -0,0 +1,143 @@
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import http from 'node:http';
+import os from 'node:os';
+import path from 'node:path';
+import type { AddressInfo } from 'node:net';
+import type { ApprovalRecord, AuditActor, WorkflowData } from '../types/index.js';
+
+const ACTOR: AuditActor = { id: 'U1', name: 'Tester' };
+
+function workflow(saveValue: string): WorkflowData {
+  return {
+    id: 'wf1',
+    name: 'Test',
+    active: true,
+    nodes: [
+      { id: 'n1', name: 'Webhook', type: 'n8n-nodes-base.webhook', typeVersion: 1, position: [0, 0], parameters: {} },
+      { id: 'n2', name: 'Save', type: 'n8n-nodes-base.set', typeVersion: 1, position: [200, 0], parameters: { value: saveValue } },
+    ],
+    connections: { Webhook: { main: [[{ node: 'Save', type: 'main', index: 0 }]] } },
+  };
+}
+
+const BEFORE_FIX = workflow('before');
+const AFTER_FIX = workflow('after');
+
+describe('rollbackFix', () => {
+  let server: http.Server;
+  let instancesDir: string;
+  let rollbackFix: typeof import('./rollback.js').rollbackFix;
+  let approvalStore: typeof import('./approvalStore.js').approvalStore;
+  let auditLog: typeof import('./auditLog.js').auditLog;
+
+  // What the fake n8n holds and how it answers updates
+  let liveWorkflow: WorkflowData;
+  let updateStatus: number;
+  let updates: WorkflowData[];
+
+  before(async () => {
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => {
+        res.setHeader('Content-Type', 'application/json');
+        if (req.method === 'PUT') {
+          updates.push(JSON.parse(body));
+          res.writeHead(updateStatus).end(JSON.stringify({ ...JSON.parse(body), id: 'wf1' }));
+        } else {
+          res.end(JSON.stringify(liveWorkflow));
+        }
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+
+    // Approvals name the instance they were made on, so point one at the fake n8n
+    // before the instance list is loaded
+    instancesDir = fs.mkdtempSync(path.join(os.tmpdir(), 'rollback-test-'));
+    const instancesFile = path.join(instancesDir, 'instances.json');
+    const apiUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/v1`;
+    fs.writeFileSync(instancesFile, JSON.stringify([{ name: 'local', apiUrl, apiKey: 'test' }]));
+    process.env.N8N_INSTANCES_FILE = instancesFile;
+
+    ({ rollbackFix } = await import('./rollback.js'));
+    ({ approvalStore } = await import('./approvalStore.js'));
+    ({ auditLog } = await import('./auditLog.js'));
+  });
+
+  beforeEach(() => {
+    liveWorkflow = AFTER_FIX;
+    updateStatus = 200;
+    updates = [];
+  });
+
+  after(() => {
+    approvalStore.destroy();
+    auditLog.destroy();
+    server.close();
+    fs.rmSync(instancesDir, { recursive: true, force: true });
+  });
+
+  function appliedApproval(id: string): ApprovalRecord {
+    const analysis = {
+      rootCause: 'Test',
+      explanation: 'Test',
+      affectedNodes: ['Save'],
+      confidence: 'high' as const,
+      suggestedFix: { id: 'fix1', description: 'Test fix', changes: [], rollbackPossible: true },
+    };
+    approvalStore.create({
+      id,
+      instance: 'local',
+      workflowId: 'wf1',
+      workflowName: 'Test',
+      errorPayload: { workflowId: 'wf1', errorMessage: 'Boom' },
+      analysis,
+      proposal: analysis.suggestedFix,
+      originalWorkflow: BEFORE_FIX,
+    });
+    return approvalStore.update(id, { status: 'applied', appliedWorkflow: AFTER_FIX })!;
+  }
+
+  it('writes the pre-fix snapshot back', async () => {
+    appliedApproval('restore');
+    const result = await rollbackFix('restore', ACTOR);
+
+    assert.equal(result.success, true);
+    assert.equal(approvalStore.get('restore')!.status, 'rolled_back');
+    assert.equal(updates.length, 1);
+    assert.deepEqual(updates[0].nodes, BEFORE_FIX.nodes);
+  });
+
+  it('refuses to discard edits made after the fix', async () => {
+    appliedApproval('edited');
+    liveWorkflow = workflow('edited in n8n');
+    const result = await rollbackFix('edited', ACTOR);
+
+    assert.equal(result.success, false);
+    assert.deepEqual(result.drift?.changedNodes, ['Save']);
+    assert.match(result.error!, /edited in n8n after the fix was applied \(Save\)/);
+    assert.equal(approvalStore.get('edited')!.status, 'applied');
+    assert.deepEqual(updates, []);
+  });
+
+  it('refuses a second rollback while one is running', async () => {
+    appliedApproval('twice');
+    const [first, second] = await Promise.all([rollbackFix('twice', ACTOR), rollbackFix('twice', ACTOR)]);
+
+    assert.equal(first.success, true);
+    assert.equal(second.success, false);
+    assert.match(second.error!, /current status: rolling_back/);
+    assert.equal(updates.length, 1);
+  });
+
+  it('leaves the fix applied when n8n rejects the update', async () => {
+    appliedApproval('rejected');
+    updateStatus = 400;
+    const result = await rollbackFix('rejected', ACTOR);
+
+    assert.equal(result.success, false);
+    assert.equal(approvalStore.get('rejected')!.status, 'applied');
+  });
+});
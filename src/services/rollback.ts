@@ -0,0 +1,112 @@
+import { logger } from '../utils/logger.js';
+import { approvalStore } from './approvalStore.js';
+import { getN8nClient } from './instances.js';
+import { slackClient } from './slack.js';
+import { auditLog, summarizeN8nResponse } from './auditLog.js';
+import { detectDrift } from '../analyzers/driftDetector.js';
+import type { DriftReport } from '../analyzers/driftDetector.js';
+import type { ApprovalRecord, AuditActor, WorkflowData } from '../types/index.js';
+
+export interface RollbackResult {
+  success: boolean;
+  record?: ApprovalRecord;
+  error?: string;
+  // Set when the workflow was edited after the fix was applied; the rollback is refused
+  drift?: DriftReport;
+}
+
+// Restore the pre-fix snapshot of an applied approval.
+// Shared by the Slack "Rollback" button and the REST endpoint.
+export async function rollbackFix(approvalId: string, actor: AuditActor): Promise<RollbackResult> {
+  const record = approvalStore.get(approvalId);
+  if (!record) {
+    return { success: false, error: 'Approval record not found' };
+  }
+
+  if (record.status !== 'applied') {
+    return { success: false, error: `Only applied fixes can be rolled back (current status: ${record.status})` };
+  }
+
+  logger.info('Rolling back applied fix', {
+    approvalId,
+    workflowId: record.workflowId,
+    actor: actor.id,
+  });
+
+  // Claimed before the first await, so a second rollback sees rolling_back and is refused
+  approvalStore.update(approvalId, { status: 'rolling_back' });
+
+  // Prefer the version the fix was actually applied on, which differs from the
+  // analysis snapshot when the patch was rebased onto a newer workflow
+  const snapshot = record.preApplyWorkflow ?? record.originalWorkflow;
+  const n8nClient = getN8nClient(record.instance);
+
+  let n8nResponse: WorkflowData;
+  try {
+    // Edits made in n8n after the fix would be lost by writing the snapshot back.
+    // Approvals applied before appliedWorkflow was recorded can't be checked.
+    if (record.appliedWorkflow) {
+      const currentWorkflow = await n8nClient.getWorkflow(record.workflowId);
+      const drift = detectDrift(record.appliedWorkflow, currentWorkflow, record.analysis.suggestedFix);
+      if (drift.drifted) {
+        approvalStore.update(approvalId, { status: 'applied' });
+        logger.warn('Rollback refused, workflow was edited after the fix', { approvalId, changedNodes: drift.changedNodes });
+        return {
+          success: false,
+          drift,
+          error: `The workflow was edited in n8n after the fix was applied (${
+            [...drift.conflicts.map((c) => c.nodeName), ...drift.changedNodes].join(', ') || 'settings'
+          }). Rolling back would discard those edits`,
+        };
+      }
+    } else {
+      logger.warn('No applied state recorded, rolling back without a drift check', { approvalId });
+    }
+
+    // The snapshot is also the credential source, so every node gets back the
+    // credential references it had before the fix was applied
+    n8nResponse = await n8nClient.updateWorkflow(record.workflowId, snapshot, snapshot);
+  } catch (error) {
+    approvalStore.update(approvalId, { status: 'applied' });
+    logger.error('Failed to roll back fix', {
+      approvalId,
+      error: (error as Error).message,
+    });
+    auditLog.record({
+      type: 'failed',
+      approvalId,
+      workflowId: record.workflowId,
+      actor,
+      n8nResponse: summarizeN8nResponse(error as Error),
+      details: `Rollback failed: ${(error as Error).message}`,
+    });
+    return { success: false, error: (error as Error).message };
+  }
+
+  const updatedRecord = approvalStore.update(approvalId, {
+    status: 'rolled_back',
+    rolledBackAt: new Date(),
+    rolledBackBy: actor,
+  });
+
+  auditLog.record({
+    type: 'rolled_back',
+    approvalId,
+    workflowId: record.workflowId,
+    actor,
+    n8nResponse: summarizeN8nResponse(n8nResponse),
+  });
+
+  if (record.slackChannelId && record.slackMessageTs) {
+    await slackClient.updateMessage(
+      record.slackChannelId,
+      record.slackMessageTs,
+      'rolled_back',
+      `Rolled back by ${actor.name}. The workflow has been restored to its state before the fix.`
+    );
+  }
+
+  logger.info('Fix rolled back', { approvalId, workflowId: record.workflowId });
+
+  return { success: true, record: updatedRecord };
+}
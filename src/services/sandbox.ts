@@ -0,0 +1,243 @@
+import { v4 as uuidv4 } from 'uuid';
+import { config } from '../utils/config.js';
+import { logger } from '../utils/logger.js';
+import { getN8nClient } from './instances.js';
+import type { N8nClient } from './n8n.js';
+import { applyFix } from '../analyzers/fixGenerator.js';
+import { isTriggerNode } from '../analyzers/workflowValidator.js';
+import type {
+  CredentialSummary,
+  ErrorAnalysis,
+  ErrorPayload,
+  ExecutionData,
+  SandboxVerification,
+  WorkflowData,
+  WorkflowNode,
+} from '../types/index.js';
+
+// Items of the last node's output kept on the approval and shown in Slack
+const MAX_OUTPUT_ITEMS = 3;
+
+export interface VerificationRequest {
+  workflow: WorkflowData;
+  analysis: ErrorAnalysis;
+  errorPayload: ErrorPayload;
+  // Failing node, when the payload doesn't name it
+  nodeName?: string;
+  // Credentials a set_credential change may switch to, as offered to the analysis
+  credentials?: CredentialSummary[];
+}
+
+interface RunDataEntry {
+  data?: { main?: Array<Array<{ json?: unknown }> | null> };
+}
+
+export class SandboxVerifier {
+  // Apply the fix to a throwaway copy of the workflow and run it from the failing node with the input
+  // that made it fail. Returns undefined when verification is disabled; never throws.
+  async verify(request: VerificationRequest): Promise<SandboxVerification | undefined> {
+    if (!config.sandboxVerification) {
+      return undefined;
+    }
+
+    const { workflow, analysis, errorPayload } = request;
+    const nodeName = errorPayload.nodeName ?? request.nodeName;
+    if (!nodeName) {
+      return { status: 'inconclusive', message: 'The failing node is unknown' };
+    }
+
+    const patch = applyFix(workflow, analysis, { credentials: request.credentials });
+    if (!patch.success || !patch.patchedWorkflow) {
+      return { status: 'failed', message: `The fix does not apply: ${patch.error}` };
+    }
+
+    // The fix may rename the failing node
+    const rename = analysis.suggestedFix.changes.find(
+      (c) => c.changeType === 'rename_node' && c.nodeName === nodeName && typeof c.newValue === 'string'
+    );
+    const targetName = rename ? (rename.newValue as string) : nodeName;
+    if (!patch.patchedWorkflow.nodes.some((n) => n.name === targetName)) {
+      return { status: 'inconclusive', message: `The fix removes ${nodeName}, so there is nothing to re-run` };
+    }
+
+    const n8nClient = getN8nClient(errorPayload.instance);
+    let sandboxId: string | undefined;
+    try {
+      const items = await this.resolveInput(n8nClient, errorPayload, workflow, nodeName);
+      if (!items) {
+        return { status: 'inconclusive', message: `No input for ${nodeName} is available to replay` };
+      }
+
+      const webhookPath = `debug-agent-sandbox-${uuidv4()}`;
+      const sandbox = await n8nClient.createWorkflow(
+        buildSandboxWorkflow(patch.patchedWorkflow, targetName, items, webhookPath)
+      );
+      sandboxId = sandbox.id;
+      logger.info('Sandbox workflow created', { workflowId: workflow.id, sandboxId });
+
+      const execution = await n8nClient.runWorkflow(sandbox.id, webhookPath, {});
+      return summarizeExecution(execution);
+    } catch (error) {
+      logger.warn('Sandbox verification could not run', {
+        workflowId: workflow.id,
+        error: (error as Error).message,
+      });
+      return { status: 'inconclusive', message: `The sandbox could not be run: ${(error as Error).message}` };
+    } finally {
+      if (sandboxId) {
+        await n8nClient.deleteWorkflow(sandboxId).catch((error) => {
+          logger.error('Failed to delete sandbox workflow', { sandboxId, error: (error as Error).message });
+        });
+      }
+    }
+  }
+
+  // The failing node's input: the payload's inputData, else what its parent produced in the failed execution
+  private async resolveInput(
+    n8nClient: N8nClient,
+    payload: ErrorPayload,
+    workflow: WorkflowData,
+    nodeName: string
+  ): Promise<Array<{ json: unknown }> | undefined> {
+    if (payload.inputData !== undefined && payload.inputData !== null) {
+      return toItems(payload.inputData);
+    }
+    if (!payload.executionId) {
+      return undefined;
+    }
+
+    const execution = await n8nClient.getExecution(payload.executionId, true);
+    const runData = (execution.data?.resultData?.runData ?? {}) as Record<string, RunDataEntry[]>;
+
+    for (const [sourceName, connections] of Object.entries(workflow.connections)) {
+      for (const [outputIndex, targets] of (connections.main ?? []).entries()) {
+        if (!(targets ?? []).some((t) => t.node === nodeName)) continue;
+        const runs = runData[sourceName];
+        const items = runs?.[runs.length - 1]?.data?.main?.[outputIndex];
+        if (items && items.length > 0) {
+          return toItems(items);
+        }
+      }
+    }
+
+    return undefined;
+  }
+}
+
+// n8n items ([{ json }]) from either items or plain objects
+function toItems(input: unknown): Array<{ json: unknown }> {
+  const values = Array.isArray(input) ? input : [input];
+  return values.map((value) =>
+    value && typeof value === 'object' && 'json' in value ? { json: (value as { json: unknown }).json } : { json: value }
+  );
+}
+
+// The patched workflow without its triggers, started instead by a webhook that feeds the pinned
+// items straight into the failing node. Nodes before it keep their place but never run. Nodes after
+// it are removed, so the run stops at the failing node and nothing downstream (sending a message,
+// writing to a database) happens a second time.
+function buildSandboxWorkflow(
+  workflow: WorkflowData,
+  nodeName: string,
+  items: Array<{ json: unknown }>,
+  webhookPath: string
+): Omit<WorkflowData, 'id' | 'active'> {
+  const removed = new Set([...workflow.nodes.filter(isTriggerNode).map((n) => n.name), ...findDownstreamNodes(workflow, nodeName)]);
+  const nodes = workflow.nodes.filter((n) => !removed.has(n.name));
+  const connections = Object.fromEntries(
+    Object.entries(workflow.connections)
+      .filter(([name]) => !removed.has(name))
+      .map(([name, byType]) => [
+        name,
+        Object.fromEntries(
+          Object.entries(byType).map(([type, outputs]) => [
+            type,
+            (outputs ?? []).map((targets) => (targets ?? []).filter((t) => !removed.has(t.node))),
+          ])
+        ),
+      ])
+  );
+
+  const target = nodes.find((n) => n.name === nodeName)!;
+  const taken = new Set(nodes.map((n) => n.name));
+  const triggerName = uniqueName('Sandbox Trigger', taken);
+  const inputName = uniqueName('Sandbox Input', taken);
+
+  const trigger: WorkflowNode = {
+    id: uuidv4(),
+    name: triggerName,
+    type: 'n8n-nodes-base.webhook',
+    typeVersion: 2,
+    position: [target.position[0] - 400, target.position[1] + 300],
+    parameters: { httpMethod: 'POST', path: webhookPath, responseMode: 'lastNode', options: {} },
+  };
+  const input: WorkflowNode = {
+    id: uuidv4(),
+    name: inputName,
+    type: 'n8n-nodes-base.code',
+    typeVersion: 2,
+    position: [target.position[0] - 200, target.position[1] + 300],
+    parameters: { jsCode: `return ${JSON.stringify(items)};` },
+  };
+
+  connections[triggerName] = { main: [[{ node: inputName, type: 'main', index: 0 }]] };
+  connections[inputName] = { main: [[{ node: nodeName, type: 'main', index: 0 }]] };
+
+  // A failing sandbox must not report itself to the error workflow, and its data must be kept to read the result
+  const { errorWorkflow: _errorWorkflow, ...settings } = workflow.settings ?? {};
+
+  return {
+    name: `[sandbox] ${workflow.name}`,
+    nodes: [...nodes, trigger, input],
+    connections,
+    settings: { ...settings, saveDataErrorExecution: 'all', saveDataSuccessExecution: 'all' },
+  };
+}
+
+// Every node reachable from nodeName over main connections, not including nodeName
+function findDownstreamNodes(workflow: WorkflowData, nodeName: string): Set<string> {
+  const found = new Set<string>();
+  const queue = [nodeName];
+
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    for (const targets of workflow.connections[current]?.main ?? []) {
+      for (const target of targets ?? []) {
+        if (target.node === nodeName || found.has(target.node)) continue;
+        found.add(target.node);
+        queue.push(target.node);
+      }
+    }
+  }
+
+  return found;
+}
+
+function uniqueName(base: string, taken: Set<string>): string {
+  let name = base;
+  for (let i = 1; taken.has(name); i++) {
+    name = `${base} ${i}`;
+  }
+  return name;
+}
+
+function summarizeExecution(execution: ExecutionData): SandboxVerification {
+  const resultData = execution.data?.resultData;
+  const lastNode = resultData?.lastNodeExecuted;
+  const runs = lastNode ? (resultData?.runData?.[lastNode] as RunDataEntry[] | undefined) : undefined;
+  const output = runs?.[runs.length - 1]?.data?.main?.[0]
+    ?.slice(0, MAX_OUTPUT_ITEMS)
+    .map((item) => item.json);
+
+  const failed = resultData?.error || (execution.status ? execution.status !== 'success' : !execution.finished);
+
+  return {
+    status: failed ? 'failed' : 'passed',
+    message: failed ? resultData?.error?.message ?? `Execution ended with status ${execution.status ?? 'unknown'}` : undefined,
+    lastNode,
+    output,
+  };
+}
+
+// Singleton instance
+export const sandboxVerifier = new SandboxVerifier();
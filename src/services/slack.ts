@@ -1,9 +1,29 @@
 import pkg from '@slack/bolt';
 const { App, LogLevel } = pkg;
-import type { KnownBlock, App as AppType } from '@slack/bolt';
+import type { KnownBlock, Button, App as AppType } from '@slack/bolt';
 import { config } from '../utils/config.js';
 import { logger } from '../utils/logger.js';
-import type { ErrorAnalysis, ApprovalRecord, ConversationMessage } from '../types/index.js';
+import { getCurrentValue } from '../analyzers/fixGenerator.js';
+import { getInstance } from './instances.js';
+import type { ApprovalRecord, ConnectionChange, ConversationMessage, CredentialChange, InsertNodeChange, WorkflowChange, WorkflowData } from '../types/index.js';
+
+// Values longer than this are uploaded as collapsible snippets instead of shown inline
+const INLINE_VALUE_MAX_CHARS = 300;
+const INLINE_VALUE_MAX_LINES = 8;
+// Slack allows 50 blocks per message, leave room for the rest of the proposal
+const MAX_CHANGE_BLOCKS = 20;
+
+interface ChangeValues {
+  label: string;
+  before?: string;
+  after?: string;
+}
+
+interface ChangeSnippet {
+  title: string;
+  filename: string;
+  content: string;
+}
 
 export class SlackClient {
   private app: AppType | null = null;
@@ -48,7 +68,7 @@ export class SlackClient {
 
     try {
       const result = await this.getApp().client.chat.postMessage({
-        channel: config.slackChannelId,
+        channel: getInstance(record.instance).slackChannelId,
         text: `Fix proposal for workflow: ${record.workflowName}`,
         blocks,
       });
@@ -63,6 +83,12 @@ export class SlackClient {
         ts: result.ts,
       });
 
+      await this.uploadChangeSnippets(
+        result.channel as string,
+        result.ts,
+        this.collectChangeSnippets(record.analysis.suggestedFix.changes, record.originalWorkflow)
+      );
+
       return {
         ts: result.ts,
         channel: result.channel as string,
@@ -73,6 +99,27 @@ export class SlackClient {
     }
   }
 
+  // Re-render the original proposal message, e.g. after more occurrences of the error arrived
+  async refreshProposal(record: ApprovalRecord): Promise<void> {
+    if (!record.slackChannelId || !record.slackMessageTs) return;
+
+    const ready = await this.initialize();
+    if (!ready) return;
+
+    try {
+      await this.getApp().client.chat.update({
+        channel: record.slackChannelId,
+        ts: record.slackMessageTs,
+        text: `Fix proposal for workflow: ${record.workflowName}`,
+        blocks: this.formatProposalBlocks(record),
+      });
+
+      logger.info('Slack proposal refreshed', { approvalId: record.id });
+    } catch (error) {
+      logger.error('Failed to refresh Slack proposal', { error: (error as Error).message });
+    }
+  }
+
   private formatProposalBlocks(record: ApprovalRecord): KnownBlock[] {
     const { analysis, errorPayload, workflowName } = record;
     const confidenceEmoji = {
@@ -81,7 +128,47 @@ export class SlackClient {
       low: ':question:',
     };
 
-    return [
+    const contextBlocks: KnownBlock[] = [];
+    const history = record.executionHistory;
+    if (history && history.failed > 0) {
+      const parts = [`:chart_with_downwards_trend: *failing ${history.failed}/${history.total} runs*`];
+      if (history.failingSince) {
+        parts[0] += ` since ${formatSlackDate(history.failingSince)}`;
+      }
+      parts.push(history.lastSuccessAt ? `last success ${formatSlackDate(history.lastSuccessAt)}` : 'no recent success');
+      contextBlocks.push({
+        type: 'context',
+        elements: [{ type: 'mrkdwn', text: parts.join(' | ') }],
+      });
+    }
+
+    if (record.occurrenceCount && record.occurrenceCount > 1) {
+      const since = Math.floor(record.createdAt.getTime() / 1000);
+      contextBlocks.push({
+        type: 'context',
+        elements: [
+          {
+            type: 'mrkdwn',
+            text: `:repeat: *${record.occurrenceCount} occurrences* since <!date^${since}^{date_short_pretty} {time}|${record.createdAt.toISOString()}>`,
+          },
+        ],
+      });
+    }
+
+    if (record.requiredApprovals && record.requiredApprovals > 1) {
+      const approvers = (record.approvals ?? []).map((vote) => `<@${vote.userId}>`).join(', ');
+      contextBlocks.push({
+        type: 'context',
+        elements: [
+          {
+            type: 'mrkdwn',
+            text: `:busts_in_silhouette: *${record.approvals?.length ?? 0} of ${record.requiredApprovals} approvals*${approvers ? ` - ${approvers}` : ''}`,
+          },
+        ],
+      });
+    }
+
+    const blocks: KnownBlock[] = [
       {
         type: 'header',
         text: {
@@ -97,6 +184,7 @@ export class SlackClient {
           text: `*Error:* ${errorPayload.errorMessage.slice(0, 200)}${errorPayload.errorMessage.length > 200 ? '...' : ''}`,
         },
       },
+      ...contextBlocks,
       {
         type: 'divider',
       },
@@ -127,6 +215,7 @@ export class SlackClient {
           },
         ],
       },
+      ...this.formatVerificationBlocks(record),
       {
         type: 'divider',
       },
@@ -141,15 +230,16 @@ export class SlackClient {
         type: 'section',
         text: {
           type: 'mrkdwn',
-          text: `*Changes (${analysis.suggestedFix.changes.length}):*\n${this.formatChanges(analysis.suggestedFix.changes)}`,
+          text: `*Changes (${analysis.suggestedFix.changes.length}):*`,
         },
       },
+      ...this.formatChangeBlocks(analysis.suggestedFix.changes, record.originalWorkflow),
       {
         type: 'context',
         elements: [
           {
             type: 'mrkdwn',
-            text: `Workflow ID: \`${record.workflowId}\` | Execution: \`${record.executionId || 'N/A'}\` | Rollback: ${analysis.suggestedFix.rollbackPossible ? ':white_check_mark:' : ':x:'}`,
+            text: `${record.instance ? `Instance: \`${record.instance}\` | ` : ''}Workflow ID: \`${record.workflowId}\` | Execution: \`${record.executionId || 'N/A'}\` | Rollback: ${analysis.suggestedFix.rollbackPossible ? ':white_check_mark:' : ':x:'}`,
           },
         ],
       },
@@ -192,49 +282,268 @@ export class SlackClient {
         ],
       },
     ];
+
+    // Once the approval reached a final state its buttons no longer apply
+    if (record.status === 'pending' || record.status === 'approved') {
+      return blocks;
+    }
+
+    return [
+      ...blocks.filter((block) => block.type !== 'actions'),
+      {
+        type: 'context',
+        elements: [
+          {
+            type: 'mrkdwn',
+            text: `*Status:* ${record.status.replace('_', ' ')}`,
+          },
+        ],
+      },
+    ];
   }
 
-  private formatChanges(changes: ErrorAnalysis['suggestedFix']['changes']): string {
+  // Outcome of the sandbox run, when the fix was verified before being proposed
+  private formatVerificationBlocks(record: ApprovalRecord): KnownBlock[] {
+    const verification = record.verification;
+    if (!verification) return [];
+
+    const statusText = {
+      passed: ':white_check_mark: Passed',
+      failed: ':x: Failed',
+      inconclusive: ':grey_question: Inconclusive',
+    };
+
+    const lines = [`*Sandbox Run:* ${statusText[verification.status]}`];
+    if (verification.message) {
+      lines.push(verification.message.slice(0, INLINE_VALUE_MAX_CHARS));
+    }
+    if (verification.output && verification.output.length > 0) {
+      const output = JSON.stringify(verification.output, null, 2);
+      const truncated = output.length > INLINE_VALUE_MAX_CHARS ? `${output.slice(0, INLINE_VALUE_MAX_CHARS)}\n...` : output;
+      lines.push(`Output of ${verification.lastNode}:\n\`\`\`${truncated}\`\`\``);
+    }
+
+    return [
+      {
+        type: 'section',
+        text: {
+          type: 'mrkdwn',
+          text: lines.join('\n'),
+        },
+      },
+    ];
+  }
+
+  // One section per change, showing the current value next to the proposed one
+  private formatChangeBlocks(changes: WorkflowChange[], workflow: WorkflowData): KnownBlock[] {
     if (changes.length === 0) {
-      return 'No specific changes identified';
+      return [
+        {
+          type: 'section',
+          text: {
+            type: 'mrkdwn',
+            text: 'No specific changes identified',
+          },
+        },
+      ];
+    }
+
+    const blocks: KnownBlock[] = changes.slice(0, MAX_CHANGE_BLOCKS).map((change, index) => ({
+      type: 'section',
+      text: {
+        type: 'mrkdwn',
+        text: this.formatChangeDiff(change, index, workflow),
+      },
+    }));
+
+    if (changes.length > MAX_CHANGE_BLOCKS) {
+      blocks.push({
+        type: 'context',
+        elements: [
+          {
+            type: 'mrkdwn',
+            text: `...and ${changes.length - MAX_CHANGE_BLOCKS} more change(s)`,
+          },
+        ],
+      });
+    }
+
+    return blocks;
+  }
+
+  private formatChangeDiff(change: WorkflowChange, index: number, workflow: WorkflowData): string {
+    const nodeInfo = change.nodeName ? ` (${change.nodeName})` : '';
+    const header = `${index + 1}. [${change.changeType}]${nodeInfo}: ${change.description}`;
+    const values = this.describeChangeValues(change, workflow);
+
+    if (this.isLongValue(values.before) || this.isLongValue(values.after)) {
+      return `${header}\n\`${values.label}\` _(long value - full diff attached in the thread)_`;
+    }
+
+    const diff = escapeMrkdwn(formatDiffLines(values.before, values.after));
+    return `${header}\n\`${values.label}\`\n\`\`\`${diff}\`\`\``;
+  }
+
+  // Unset shows only the removed value, append only the new array item
+  private describePathValues(label: string, change: WorkflowChange, workflow: WorkflowData): ChangeValues {
+    switch (change.operation ?? 'set') {
+      case 'unset':
+        return { label: `${label} (unset)`, before: formatValue(getCurrentValue(workflow, change)) };
+      case 'append':
+        return { label: `${label} (append)`, after: formatValue(change.newValue) };
+      default:
+        return { label, before: formatValue(getCurrentValue(workflow, change)), after: formatValue(change.newValue) };
     }
+  }
+
+  // Before/after text for a change, read from the workflow it will be applied to
+  private describeChangeValues(change: WorkflowChange, workflow: WorkflowData): ChangeValues {
+    switch (change.changeType) {
+      case 'modify_node': {
+        if (change.path) {
+          return this.describePathValues(change.path, change, workflow);
+        }
+        // Without a path the new value is merged into the node, so show the keys it replaces
+        const node = workflow.nodes.find((n) => n.name === change.nodeName) as unknown as Record<string, unknown>;
+        const replacedKeys = Object.keys((change.newValue as Record<string, unknown>) || {});
+        const before = Object.fromEntries(replacedKeys.map((key) => [key, node?.[key]]));
+        return { label: '(merge)', before: formatValue(before), after: formatValue(change.newValue) };
+      }
+      case 'modify_settings':
+        if (change.path) {
+          return this.describePathValues(`settings.${change.path}`, change, workflow);
+        }
+        return { label: 'settings', before: formatValue(workflow.settings), after: formatValue(change.newValue) };
+      case 'set_credential': {
+        const credential = change.newValue as Partial<CredentialChange> | undefined;
+        const current = getCurrentValue(workflow, change) as { id?: string; name?: string } | undefined;
+        return {
+          label: `credential ${credential?.credentialType}`,
+          before: current ? `${current.name} (id ${current.id})` : undefined,
+          after: `${credential?.name} (id ${credential?.id})`,
+        };
+      }
+      case 'rename_node':
+        return { label: 'node name', before: formatValue(change.nodeName), after: formatValue(change.newValue) };
+      case 'add_node':
+        return { label: 'new node', after: formatValue(change.newValue) };
+      case 'remove_node':
+        return {
+          label: 'removed node',
+          before: formatValue(workflow.nodes.find((n) => n.name === change.nodeName)),
+        };
+      case 'insert_node_between': {
+        const insertion = change.newValue as Partial<InsertNodeChange> | undefined;
+        return { label: `new node between ${insertion?.from} and ${insertion?.to}`, after: formatValue(insertion?.node) };
+      }
+      case 'modify_connection': {
+        const connection = change.newValue as Partial<ConnectionChange> | undefined;
+        const label = `${connection?.connectionType ?? 'main'} connection`;
+        const text = `${connection?.from} -> ${connection?.to}`;
+        return connection?.action === 'remove' ? { label, before: text } : { label, after: text };
+      }
+      default:
+        return { label: 'value', after: formatValue(change.newValue) };
+    }
+  }
+
+  private isLongValue(value?: string): boolean {
+    return !!value && (value.length > INLINE_VALUE_MAX_CHARS || value.split('\n').length > INLINE_VALUE_MAX_LINES);
+  }
+
+  private collectChangeSnippets(changes: WorkflowChange[], workflow: WorkflowData): ChangeSnippet[] {
+    const snippets: ChangeSnippet[] = [];
+
+    changes.forEach((change, index) => {
+      const values = this.describeChangeValues(change, workflow);
+      if (!this.isLongValue(values.before) && !this.isLongValue(values.after)) return;
 
-    return changes
-      .map((change, index) => {
-        const nodeInfo = change.nodeName ? ` (${change.nodeName})` : '';
-        return `${index + 1}. [${change.changeType}]${nodeInfo}: ${change.description}`;
-      })
-      .join('\n');
+      const target = [change.nodeName, values.label].filter(Boolean).join(' ');
+      snippets.push({
+        title: `Change ${index + 1}: ${target}`,
+        filename: `change-${index + 1}-${target.replace(/[^\w.-]+/g, '_')}.diff`,
+        content: formatDiffLines(values.before, values.after),
+      });
+    });
+
+    return snippets;
+  }
+
+  // Long values go into the thread as file snippets, which Slack shows collapsed
+  private async uploadChangeSnippets(channel: string, threadTs: string, snippets: ChangeSnippet[]): Promise<void> {
+    for (const snippet of snippets) {
+      try {
+        await this.getApp().client.files.uploadV2({
+          channel_id: channel,
+          thread_ts: threadTs,
+          content: snippet.content,
+          filename: snippet.filename,
+          title: snippet.title,
+          snippet_type: 'diff',
+        });
+      } catch (error) {
+        logger.error('Failed to upload change snippet', { title: snippet.title, error: (error as Error).message });
+      }
+    }
   }
 
   async updateMessage(
     channel: string,
     ts: string,
-    status: 'approved' | 'rejected' | 'applied' | 'failed',
-    additionalInfo?: string
+    status: 'partially_approved' | 'approved' | 'rejected' | 'applied' | 'failed' | 'rolled_back' | 'expired',
+    additionalInfo?: string,
+    followUpApprovalId?: string
   ): Promise<void> {
     const ready = await this.initialize();
     if (!ready) return;
 
     const statusEmoji = {
+      partially_approved: ':ballot_box_with_check:',
       approved: ':hourglass_flowing_sand:',
       rejected: ':no_entry:',
       applied: ':white_check_mark:',
       failed: ':x:',
+      rolled_back: ':rewind:',
+      expired: ':alarm_clock:',
     };
 
     const statusText = {
+      partially_approved: 'Approval recorded',
       approved: 'Approved - Applying fix...',
       rejected: 'Rejected by user',
       applied: 'Fix successfully applied!',
       failed: 'Fix application failed',
+      rolled_back: 'Fix rolled back',
+      expired: 'Approval expired',
     };
 
+    const text = `${statusEmoji[status]} *Status Update:* ${statusText[status]}${additionalInfo ? `\n${additionalInfo}` : ''}`;
+
+    // Applied fixes can be rolled back, expired approvals can be re-analyzed
+    const followUpButton = followUpApprovalId ? this.formatFollowUpButton(status, followUpApprovalId) : undefined;
+    const blocks: KnownBlock[] | undefined = followUpButton
+      ? [
+          {
+            type: 'section',
+            text: {
+              type: 'mrkdwn',
+              text,
+            },
+          },
+          {
+            type: 'actions',
+            block_id: `${status}_${followUpApprovalId}`,
+            elements: [followUpButton],
+          },
+        ]
+      : undefined;
+
     try {
       await this.getApp().client.chat.postMessage({
         channel,
         thread_ts: ts,
-        text: `${statusEmoji[status]} *Status Update:* ${statusText[status]}${additionalInfo ? `\n${additionalInfo}` : ''}`,
+        text,
+        blocks,
       });
 
       logger.info('Slack status update sent', { channel, ts, status });
@@ -243,6 +552,56 @@ export class SlackClient {
     }
   }
 
+  private formatFollowUpButton(status: string, approvalId: string): Button | undefined {
+    if (status === 'applied') {
+      return {
+        type: 'button',
+        text: {
+          type: 'plain_text',
+          text: ':rewind: Rollback',
+          emoji: true,
+        },
+        style: 'danger',
+        action_id: 'rollback_fix',
+        value: approvalId,
+        confirm: {
+          title: {
+            type: 'plain_text',
+            text: 'Roll back this fix?',
+          },
+          text: {
+            type: 'mrkdwn',
+            text: 'The workflow will be restored to its state before the fix was applied.',
+          },
+          confirm: {
+            type: 'plain_text',
+            text: 'Rollback',
+          },
+          deny: {
+            type: 'plain_text',
+            text: 'Cancel',
+          },
+        },
+      };
+    }
+
+    if (status === 'expired') {
+      return {
+        type: 'button',
+        text: {
+          type: 'plain_text',
+          text: ':arrows_counterclockwise: Re-analyze',
+          emoji: true,
+        },
+        style: 'primary',
+        action_id: 'reanalyze_fix',
+        value: approvalId,
+      };
+    }
+
+    return undefined;
+  }
+
   async openSuggestionModal(
     triggerId: string,
     approvalId: string,
@@ -559,7 +918,8 @@ export class SlackClient {
     approvalId: string,
     userSuggestion: string,
     revisedAnalysis: string,
-    revisedChanges: string
+    revisedChanges: WorkflowChange[],
+    workflow: WorkflowData
   ): Promise<void> {
     const ready = await this.initialize();
     if (!ready) return;
@@ -591,9 +951,10 @@ export class SlackClient {
             type: 'section',
             text: {
               type: 'mrkdwn',
-              text: `*Revised Changes:*\n${revisedChanges}`,
+              text: `*Revised Changes (${revisedChanges.length}):*`,
             },
           },
+          ...this.formatChangeBlocks(revisedChanges, workflow),
           {
             type: 'actions',
             block_id: `revised_approval_${approvalId}`,
@@ -635,12 +996,27 @@ export class SlackClient {
         ],
       });
 
+      await this.uploadChangeSnippets(channel, threadTs, this.collectChangeSnippets(revisedChanges, workflow));
+
       logger.info('Revised proposal posted', { approvalId, channel });
     } catch (error) {
       logger.error('Failed to post revised proposal', { error: (error as Error).message });
     }
   }
 
+  async getUserGroupMembers(userGroupId: string): Promise<string[]> {
+    const ready = await this.initialize();
+    if (!ready) return [];
+
+    try {
+      const result = await this.getApp().client.usergroups.users.list({ usergroup: userGroupId });
+      return result.users ?? [];
+    } catch (error) {
+      logger.error('Failed to list Slack user group members', { userGroupId, error: (error as Error).message });
+      return [];
+    }
+  }
+
   getBoltApp(): AppType | null {
     return this.app;
   }
@@ -650,5 +1026,34 @@ export class SlackClient {
   }
 }
 
+// Rendered in the reader's timezone, e.g. "Today 09:12"
+function formatSlackDate(iso: string): string {
+  const seconds = Math.floor(new Date(iso).getTime() / 1000);
+  return `<!date^${seconds}^{date_short_pretty} {time}|${iso}>`;
+}
+
+function formatValue(value: unknown): string {
+  if (value === undefined) return '(not set)';
+  if (typeof value === 'string') return value;
+  return JSON.stringify(value, null, 2);
+}
+
+// Render a before/after pair as -/+ prefixed lines
+function formatDiffLines(before?: string, after?: string): string {
+  const lines: string[] = [];
+  if (before !== undefined) {
+    lines.push(...before.split('\n').map((line) => `- ${line}`));
+  }
+  if (after !== undefined) {
+    lines.push(...after.split('\n').map((line) => `+ ${line}`));
+  }
+  return lines.join('\n');
+}
+
+// Slack treats these as control characters even inside code blocks
+function escapeMrkdwn(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
 // Singleton instance
 export const slackClient = new SlackClient();
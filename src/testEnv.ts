@@ -0,0 +1,12 @@
+// Loaded with --import before every test file, so modules reading config at import time can load.
+// Values already in the environment (or .env) for the n8n API are overridden: tests never reach a server.
+Object.assign(process.env, {
+  LOG_LEVEL: 'error',
+  N8N_API_URL: 'http://n8n.test/api/v1',
+  N8N_API_KEY: 'test',
+  API_BEARER_TOKEN: 'test',
+  APPROVAL_STORE: 'memory',
+  N8N_INSTANCES_FILE: '',
+  POLL_INTERVAL_MS: '0',
+  SANDBOX_VERIFICATION: 'false',
+});
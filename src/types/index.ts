@@ -9,6 +9,8 @@ export interface ErrorPayload {
   nodeType?: string;
   inputData?: unknown;
   timestamp?: string;
+  // Name of the n8n instance the workflow runs on - the default instance when unset
+  instance?: string;
 }
 
 // Result returned after debug analysis
@@ -18,6 +20,8 @@ export interface DebugResult {
   analysis?: ErrorAnalysis;
   error?: string;
   message: string;
+  deduplicated?: boolean;
+  occurrenceCount?: number;
 }
 
 // Claude's analysis of the error
@@ -36,14 +40,29 @@ export interface FixProposal {
   description: string;
   changes: WorkflowChange[];
   rollbackPossible: boolean;
+  // All-or-nothing apply. Defaults to true when there is more than one change
+  atomic?: boolean;
 }
 
 // Individual change to apply to workflow
 export interface WorkflowChange {
   nodeId?: string;
   nodeName?: string;
-  changeType: 'modify_node' | 'add_node' | 'remove_node' | 'modify_connection' | 'modify_settings';
+  changeType:
+    | 'modify_node'
+    | 'add_node'
+    | 'remove_node'
+    | 'modify_connection'
+    | 'modify_settings'
+    | 'rename_node'
+    | 'set_credential'
+    | 'insert_node_between';
+  // Dotted (parameters.rules[0].value) or JSON pointer (/parameters/rules/0/value)
   path?: string;
+  // How newValue is applied at path - defaults to 'set'
+  operation?: 'set' | 'unset' | 'append';
+  // Changes sharing a group depend on each other and are applied or dropped together
+  group?: string;
   oldValue?: unknown;
   newValue: unknown;
   description: string;
@@ -67,10 +86,74 @@ export interface WorkflowNode {
   position: [number, number];
   parameters: Record<string, unknown>;
   credentials?: Record<string, unknown>;
+  disabled?: boolean;
+  // 'continueErrorOutput' gives the node an extra error output
+  onError?: 'stopWorkflow' | 'continueRegularOutput' | 'continueErrorOutput';
 }
 
-export interface WorkflowConnections {
-  main: Array<Array<{ node: string; type: string; index: number }>>;
+// Connection kinds n8n emits: main data flow plus the sub-node links used by AI Agent workflows
+export type ConnectionType =
+  | 'main'
+  | 'ai_agent'
+  | 'ai_chain'
+  | 'ai_document'
+  | 'ai_embedding'
+  | 'ai_languageModel'
+  | 'ai_memory'
+  | 'ai_outputParser'
+  | 'ai_retriever'
+  | 'ai_reranker'
+  | 'ai_textSplitter'
+  | 'ai_tool'
+  | 'ai_vectorStore';
+
+export interface ConnectionTarget {
+  node: string;
+  type: string;
+  index: number;
+}
+
+// Outputs of a node keyed by connection type, each output holding its targets.
+// Keys are open-ended so connection types from newer n8n versions survive a round-trip.
+export type WorkflowConnections = { [type in ConnectionType]?: ConnectionTarget[][] } & {
+  [type: string]: ConnectionTarget[][] | undefined;
+};
+
+// newValue of a modify_connection change
+export interface ConnectionChange {
+  from: string;
+  to: string;
+  action: 'add' | 'remove';
+  // Defaults to 'main'
+  connectionType?: string;
+  outputIndex?: number;
+  inputIndex?: number;
+}
+
+// newValue of an insert_node_between change: reroute from -> to through a new node
+export interface InsertNodeChange {
+  from: string;
+  to: string;
+  node: Pick<WorkflowNode, 'name' | 'type'> & Partial<WorkflowNode>;
+  // Output of `from` to reroute, needed only when several outputs lead to `to`
+  outputIndex?: number;
+  // Output of the new node that continues to `to` - defaults to 0 (e.g. the true branch of an IF)
+  newNodeOutputIndex?: number;
+}
+
+// Credential metadata as listed by n8n - never includes the secret data
+export interface CredentialSummary {
+  id: string;
+  name: string;
+  type: string;
+}
+
+// newValue of a set_credential change: which existing credential a node should use
+export interface CredentialChange {
+  // Credential type key on the node, e.g. slackOAuth2Api
+  credentialType: string;
+  id: string;
+  name: string;
 }
 
 // n8n Execution details
@@ -78,6 +161,8 @@ export interface ExecutionData {
   id: string;
   finished: boolean;
   mode: string;
+  // success, error, crashed, running, waiting... (newer n8n versions)
+  status?: string;
   startedAt: string;
   stoppedAt?: string;
   workflowId: string;
@@ -85,15 +170,69 @@ export interface ExecutionData {
   data?: {
     resultData?: {
       runData?: Record<string, unknown>;
+      lastNodeExecuted?: string;
       error?: {
         message: string;
+        description?: string;
         stack?: string;
-        node?: string;
+        httpCode?: string | number;
+        // A node name in older n8n versions, the node itself in newer ones
+        node?: string | { name?: string; type?: string };
       };
     };
   };
 }
 
+// The first items of a list, each with long values shortened
+export interface ItemSample {
+  items: unknown[];
+  totalItems: number;
+}
+
+// Details of the failed execution, fetched when the payload carries its executionId
+export interface ExecutionContext {
+  executionId: string;
+  // How the run started: trigger, webhook, manual, retry...
+  mode: string;
+  status?: string;
+  failingNode?: string;
+  error?: {
+    message: string;
+    description?: string;
+    httpCode?: string;
+    node?: string;
+    stack?: string;
+  };
+  // Items the failing node received
+  nodeInput?: ItemSample;
+  // Output of the nodes before the failing one, nearest first
+  upstreamOutputs: Record<string, ItemSample>;
+}
+
+// Outcome of a workflow's recent runs, newest first
+export interface ExecutionHistory {
+  // Finished runs looked at
+  total: number;
+  failed: number;
+  // Failed runs since the last success
+  consecutiveFailures: number;
+  // Start of the oldest failure since the last success (ISO timestamps, as n8n returns them)
+  failingSince?: string;
+  // Start of the oldest failure among the runs looked at
+  firstFailureAt?: string;
+  lastSuccessAt?: string;
+}
+
+// Result of running the patched workflow in a throwaway copy with the failing node's input
+export interface SandboxVerification {
+  // inconclusive: no input to replay, or the sandbox itself could not be run
+  status: 'passed' | 'failed' | 'inconclusive';
+  message?: string;
+  // Node that ran last and the first items it produced
+  lastNode?: string;
+  output?: unknown[];
+}
+
 // Conversation message in suggestion flow
 export interface ConversationMessage {
   role: 'user' | 'assistant';
@@ -101,9 +240,11 @@ export interface ConversationMessage {
   timestamp: Date;
 }
 
-// Approval record stored in memory
+// Approval record persisted by ApprovalStore
 export interface ApprovalRecord {
   id: string;
+  // n8n instance the workflow lives on - the default instance when unset
+  instance?: string;
   workflowId: string;
   workflowName: string;
   executionId?: string;
@@ -111,16 +252,101 @@ export interface ApprovalRecord {
   analysis: ErrorAnalysis;
   proposal: FixProposal;
   originalWorkflow: WorkflowData;
-  status: 'pending' | 'approved' | 'rejected' | 'expired' | 'applied';
+  severity?: 'critical' | 'error' | 'warning';
+  // Live workflow the fix was applied on top of (differs from originalWorkflow after a rebase)
+  preApplyWorkflow?: WorkflowData;
+  // Workflow as n8n returned it after the fix, so a rollback can tell whether it was edited since
+  appliedWorkflow?: WorkflowData;
+  // rolling_back: a rollback is writing to n8n, so a second one is refused
+  status: 'pending' | 'approved' | 'rejected' | 'expired' | 'applied' | 'rolling_back' | 'rolled_back';
   createdAt: Date;
   expiresAt: Date;
+  // Sign-offs collected so far and how many the matching policies require
+  approvals?: ApprovalVote[];
+  requiredApprovals?: number;
+  rolledBackAt?: Date;
+  rolledBackBy?: AuditActor;
+  // Approval created when this expired one was re-analyzed
+  supersededBy?: string;
   slackMessageTs?: string;
   slackChannelId?: string;
+  // Error fingerprint used to attach repeated failures to this approval
+  fingerprint?: string;
+  occurrenceCount?: number;
+  lastOccurrenceAt?: Date;
   skills?: N8nSkill[];
   nodeDocumentation?: string;
+  verification?: SandboxVerification;
+  executionHistory?: ExecutionHistory;
   conversationHistory?: ConversationMessage[];
 }
 
+// An n8n server the agent works with. The default one comes from N8N_API_URL / N8N_API_KEY,
+// others from N8N_INSTANCES_FILE.
+export interface N8nInstance {
+  name: string;
+  apiUrl: string;
+  apiKey: string;
+  webhookUrl: string;
+  // Where fix proposals for this instance's workflows are posted
+  slackChannelId: string;
+  // Applied on top of the APPROVAL_POLICIES_FILE policies
+  policies: ApprovalPolicy[];
+  // Workflows whose failed executions are picked up by polling, for those without an error workflow
+  pollWorkflowIds: string[];
+}
+
+// Approval requirements for high-risk fixes, loaded from APPROVAL_POLICIES_FILE
+export interface ApprovalPolicy {
+  name: string;
+  // Match conditions - unset conditions match everything
+  severities?: Array<'critical' | 'error' | 'warning'>;
+  // Matches when the proposal contains any of these change types
+  changeTypes?: WorkflowChange['changeType'][];
+  // Restricts the policy to these workflows
+  workflowIds?: string[];
+  // Requirements
+  requiredApprovals?: number;
+  // Slack user group ID (S0123...) whose members are the only valid approvers
+  requiredUserGroup?: string;
+}
+
+// One approver's sign-off on a proposal
+export interface ApprovalVote {
+  userId: string;
+  username: string;
+  approvedAt: Date;
+}
+
+// Who performed an action - a Slack user, an API token or the agent itself
+export interface AuditActor {
+  id: string;
+  name: string;
+}
+
+export type AuditEventType =
+  | 'created'
+  | 'revised'
+  | 'approved'
+  | 'rejected'
+  | 'applied'
+  | 'failed'
+  | 'expired'
+  | 'rolled_back';
+
+// Append-only record of an approval lifecycle event
+export interface AuditEvent {
+  id: string;
+  type: AuditEventType;
+  approvalId: string;
+  workflowId: string;
+  actor: AuditActor;
+  changes?: WorkflowChange[];
+  n8nResponse?: unknown;
+  details?: string;
+  timestamp: Date;
+}
+
 // n8n Skills from GitHub
 export interface N8nSkill {
   name: string;
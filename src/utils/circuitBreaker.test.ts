@@ -0,0 +1,66 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { CircuitBreaker, CircuitOpenError } from './circuitBreaker.js';
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+function openBreaker(cooldownMs: number): CircuitBreaker {
+  const breaker = new CircuitBreaker('test', { failureThreshold: 2, cooldownMs });
+  breaker.recordFailure(new Error('first'));
+  breaker.recordFailure(new Error('second'));
+  return breaker;
+}
+
+describe('CircuitBreaker', () => {
+  it('opens after the failure threshold and rejects calls', () => {
+    const breaker = new CircuitBreaker('test', { failureThreshold: 2, cooldownMs: 60_000 });
+    breaker.recordFailure(new Error('first'));
+    assert.equal(breaker.getStatus().state, 'closed');
+    assert.doesNotThrow(() => breaker.checkAvailable());
+
+    breaker.recordFailure(new Error('second'));
+    const status = breaker.getStatus();
+    assert.equal(status.state, 'open');
+    assert.equal(status.consecutiveFailures, 2);
+    assert.equal(status.lastFailure, 'second');
+    assert.ok(status.retryAt);
+    assert.throws(() => breaker.checkAvailable(), CircuitOpenError);
+  });
+
+  it('resets the failure count on success', () => {
+    const breaker = new CircuitBreaker('test', { failureThreshold: 2, cooldownMs: 60_000 });
+    breaker.recordFailure(new Error('first'));
+    breaker.recordSuccess();
+    breaker.recordFailure(new Error('second'));
+    assert.equal(breaker.getStatus().state, 'closed');
+  });
+
+  it('lets a single trial call through after the cooldown', async () => {
+    const breaker = openBreaker(10);
+    await sleep(20);
+
+    assert.doesNotThrow(() => breaker.checkAvailable());
+    assert.equal(breaker.getStatus().state, 'half_open');
+    assert.throws(() => breaker.checkAvailable(), CircuitOpenError);
+  });
+
+  it('closes when the trial call succeeds', async () => {
+    const breaker = openBreaker(10);
+    await sleep(20);
+
+    breaker.checkAvailable();
+    breaker.recordSuccess();
+    assert.equal(breaker.getStatus().state, 'closed');
+    assert.doesNotThrow(() => breaker.checkAvailable());
+  });
+
+  it('opens again when the trial call fails', async () => {
+    const breaker = openBreaker(10);
+    await sleep(20);
+
+    breaker.checkAvailable();
+    breaker.recordFailure(new Error('still down'));
+    assert.equal(breaker.getStatus().state, 'open');
+    assert.throws(() => breaker.checkAvailable(), CircuitOpenError);
+  });
+});
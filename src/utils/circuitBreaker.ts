@@ -0,0 +1,100 @@
+import { logger } from './logger.js';
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface CircuitBreakerOptions {
+  // Consecutive failures that open the circuit
+  failureThreshold: number;
+  // How long an open circuit rejects calls before letting a trial call through
+  cooldownMs: number;
+}
+
+export interface CircuitStatus {
+  state: CircuitState;
+  consecutiveFailures: number;
+  // When an open circuit lets the next trial call through
+  retryAt?: string;
+  lastFailure?: string;
+}
+
+// Thrown instead of calling a dependency that is known to be down
+export class CircuitOpenError extends Error {
+  constructor(
+    name: string,
+    public readonly retryAt: Date
+  ) {
+    super(`${name} is unavailable, not retrying before ${retryAt.toISOString()}`);
+    this.name = 'CircuitOpenError';
+  }
+}
+
+// Closed: calls go through. Open: calls fail fast until the cooldown ends.
+// Half open: one trial call decides whether to close again or stay open.
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private openedAt = 0;
+  private trialInFlight = false;
+  private lastFailure?: string;
+
+  constructor(
+    private name: string,
+    private options: CircuitBreakerOptions
+  ) {}
+
+  // Call before each attempt; throws CircuitOpenError when the call must not be made
+  checkAvailable(): void {
+    if (this.state === 'closed') return;
+
+    const retryAt = this.openedAt + this.options.cooldownMs;
+    if (this.state === 'open' && Date.now() >= retryAt) {
+      this.transition('half_open');
+    }
+
+    if (this.state === 'half_open' && !this.trialInFlight) {
+      this.trialInFlight = true;
+      return;
+    }
+
+    throw new CircuitOpenError(this.name, new Date(Math.max(retryAt, Date.now())));
+  }
+
+  recordSuccess(): void {
+    this.consecutiveFailures = 0;
+    this.trialInFlight = false;
+    if (this.state !== 'closed') {
+      this.transition('closed');
+    }
+  }
+
+  recordFailure(error: Error): void {
+    this.consecutiveFailures++;
+    this.lastFailure = error.message;
+    this.trialInFlight = false;
+
+    if (this.state === 'half_open' || this.consecutiveFailures >= this.options.failureThreshold) {
+      this.openedAt = Date.now();
+      if (this.state !== 'open') {
+        this.transition('open');
+      }
+    }
+  }
+
+  getStatus(): CircuitStatus {
+    return {
+      state: this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      retryAt: this.state === 'open' ? new Date(this.openedAt + this.options.cooldownMs).toISOString() : undefined,
+      lastFailure: this.lastFailure,
+    };
+  }
+
+  private transition(state: CircuitState): void {
+    logger.log(state === 'open' ? 'warn' : 'info', `Circuit ${state.replace('_', ' ')}`, {
+      circuit: this.name,
+      consecutiveFailures: this.consecutiveFailures,
+      lastFailure: this.lastFailure,
+    });
+    this.state = state;
+  }
+}
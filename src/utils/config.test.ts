@@ -0,0 +1,57 @@
+import { after, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { spawnSync } from 'node:child_process';
+import fs from 'node:fs';
+import os from 'node:os';
+import path from 'node:path';
+
+// Modules check the environment as they load, so each case imports them in a fresh process.
+// It runs in an empty directory so no .env is picked up.
+const workDir = fs.mkdtempSync(path.join(os.tmpdir(), 'config-test-'));
+
+function importModule(modulePath: string, env: Record<string, string>) {
+  const url = new URL(modulePath, import.meta.url).href;
+  return spawnSync(process.execPath, ['--input-type=module', '-e', `await import(${JSON.stringify(url)})`], {
+    cwd: workDir,
+    env: { PATH: process.env.PATH ?? '', LOG_LEVEL: 'error', ...env },
+    encoding: 'utf8',
+    timeout: 30_000,
+  });
+}
+
+const N8N_ENV = { N8N_API_URL: 'http://n8n.test/api/v1', N8N_API_KEY: 'test' };
+
+describe('environment checks', () => {
+  after(() => {
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  it('loads the config with only the n8n settings, as the bootstrap command does', () => {
+    const result = importModule('./config.js', N8N_ENV);
+    assert.equal(result.status, 0, result.stderr);
+  });
+
+  it('requires the n8n settings everywhere', () => {
+    const result = importModule('./config.js', { N8N_API_KEY: 'test' });
+    assert.equal(result.status, 1);
+    assert.match(result.stderr, /- N8N_API_URL/);
+  });
+
+  it('stops the server on missing secrets before the approval database is opened', () => {
+    const dbPath = path.join(workDir, 'approvals.db');
+    const result = importModule('../index.js', {
+      ...N8N_ENV,
+      APPROVAL_STORE: 'sqlite',
+      APPROVAL_DB_PATH: dbPath,
+      SLACK_BOT_TOKEN: 'xoxb-test',
+      SLACK_SIGNING_SECRET: 'test',
+      SLACK_CHANNEL_ID: 'C1',
+      API_BEARER_TOKEN: 'test',
+    });
+
+    assert.equal(result.status, 1);
+    assert.match(result.stderr, /- ANTHROPIC_API_KEY/);
+    assert.doesNotMatch(result.stderr, /SLACK_BOT_TOKEN/);
+    assert.equal(fs.existsSync(dbPath), false);
+  });
+});
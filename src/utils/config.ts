@@ -10,25 +10,45 @@ export interface Config {
   anthropicApiKey: string;
   n8nApiUrl: string;
   n8nApiKey: string;
+  // Base URL production webhooks are served under, e.g. https://n8n.example.com/webhook
+  n8nWebhookUrl: string;
   slackBotToken: string;
   slackSigningSecret: string;
   slackChannelId: string;
   skillsCacheTtl: number;
   apiBearerToken: string;
+  // URL n8n reaches this agent at, used by the installed error workflow
+  agentPublicUrl?: string;
+  approvalStoreBackend: 'sqlite' | 'memory';
+  approvalDbPath: string;
+  approvalTtlMs: {
+    critical: number;
+    error: number;
+    warning: number;
+  };
+  approvalPoliciesFile?: string;
+  // JSON file listing further n8n instances besides the one configured by N8N_API_URL
+  n8nInstancesFile?: string;
+  sandboxVerification: boolean;
+  // Polling for failed executions - disabled when the interval is 0
+  pollIntervalMs: number;
+  pollWorkflowIds: string[];
 }
 
-const REQUIRED_ENV_VARS = [
+// Needed by every entry point. The rest is checked by the entry point that uses it,
+// so the bootstrap command can run without the server's Claude and Slack secrets.
+const REQUIRED_ENV_VARS = ['N8N_API_URL', 'N8N_API_KEY'] as const;
+
+export const SERVER_ENV_VARS = [
   'ANTHROPIC_API_KEY',
-  'N8N_API_URL',
-  'N8N_API_KEY',
   'SLACK_BOT_TOKEN',
   'SLACK_SIGNING_SECRET',
   'SLACK_CHANNEL_ID',
   'API_BEARER_TOKEN',
 ] as const;
 
-function validateEnv(): void {
-  const missing = REQUIRED_ENV_VARS.filter((name) => !process.env[name]);
+export function validateEnv(names: readonly string[]): void {
+  const missing = names.filter((name) => !process.env[name]);
   if (missing.length > 0) {
     console.error('\n❌ Missing required environment variables:\n');
     missing.forEach((name) => console.error(`   - ${name}`));
@@ -46,21 +66,43 @@ function optionalEnv(name: string, defaultValue: string): string {
   return process.env[name] || defaultValue;
 }
 
+// Production webhooks live next to the API: https://n8n.example.com/api/v1 -> https://n8n.example.com/webhook
+export function deriveWebhookUrl(apiUrl: string): string {
+  return `${apiUrl.replace(/\/api\/v\d+\/?$/, '').replace(/\/$/, '')}/webhook`;
+}
+
 export function loadConfig(): Config {
-  validateEnv();
+  validateEnv(REQUIRED_ENV_VARS);
 
   return {
     port: parseInt(optionalEnv('PORT', '3000'), 10),
     nodeEnv: optionalEnv('NODE_ENV', 'development'),
     logLevel: optionalEnv('LOG_LEVEL', 'info'),
-    anthropicApiKey: requireEnv('ANTHROPIC_API_KEY'),
+    anthropicApiKey: optionalEnv('ANTHROPIC_API_KEY', ''),
     n8nApiUrl: requireEnv('N8N_API_URL'),
     n8nApiKey: requireEnv('N8N_API_KEY'),
-    slackBotToken: requireEnv('SLACK_BOT_TOKEN'),
-    slackSigningSecret: requireEnv('SLACK_SIGNING_SECRET'),
-    slackChannelId: requireEnv('SLACK_CHANNEL_ID'),
+    n8nWebhookUrl: optionalEnv('N8N_WEBHOOK_URL', deriveWebhookUrl(requireEnv('N8N_API_URL'))),
+    slackBotToken: optionalEnv('SLACK_BOT_TOKEN', ''),
+    slackSigningSecret: optionalEnv('SLACK_SIGNING_SECRET', ''),
+    slackChannelId: optionalEnv('SLACK_CHANNEL_ID', ''),
     skillsCacheTtl: parseInt(optionalEnv('SKILLS_CACHE_TTL', '3600000'), 10),
-    apiBearerToken: requireEnv('API_BEARER_TOKEN'),
+    apiBearerToken: optionalEnv('API_BEARER_TOKEN', ''),
+    agentPublicUrl: process.env.AGENT_PUBLIC_URL || undefined,
+    approvalStoreBackend: optionalEnv('APPROVAL_STORE', 'sqlite') === 'memory' ? 'memory' : 'sqlite',
+    approvalDbPath: optionalEnv('APPROVAL_DB_PATH', './data/approvals.db'),
+    approvalTtlMs: {
+      critical: parseInt(optionalEnv('APPROVAL_TTL_CRITICAL_MS', '86400000'), 10),
+      error: parseInt(optionalEnv('APPROVAL_TTL_ERROR_MS', '86400000'), 10),
+      warning: parseInt(optionalEnv('APPROVAL_TTL_WARNING_MS', '86400000'), 10),
+    },
+    approvalPoliciesFile: process.env.APPROVAL_POLICIES_FILE || undefined,
+    n8nInstancesFile: process.env.N8N_INSTANCES_FILE || undefined,
+    sandboxVerification: optionalEnv('SANDBOX_VERIFICATION', 'false') === 'true',
+    pollIntervalMs: parseInt(optionalEnv('POLL_INTERVAL_MS', '0'), 10),
+    pollWorkflowIds: optionalEnv('POLL_WORKFLOW_IDS', '')
+      .split(',')
+      .map((id) => id.trim())
+      .filter(Boolean),
   };
 }
 
@@ -0,0 +1,5 @@
+import { validateEnv, SERVER_ENV_VARS } from './config.js';
+
+// Imported first by the server, so missing secrets stop it before other modules
+// open the approval database or create clients at import time
+validateEnv(SERVER_ENV_VARS);